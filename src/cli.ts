@@ -0,0 +1,289 @@
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import * as readline from 'node:readline/promises';
+import { BaselineCacheService } from './services/baselineCacheService';
+import { CancelledError } from './services/cancellation';
+import { GitService } from './services/gitService';
+import { PlaywrightService } from './services/playwrightService';
+import { readRouteManifest } from './services/routeManifest';
+import { fileJournalStore, restoreWorkspace, RunJournal } from './services/runJournal';
+import { LogLevel, RunLog } from './services/runLog';
+import { ServerService } from './services/serverService';
+import { setSettingsSource, Settings, settingsFromObject } from './services/settings';
+import { RunCancellation, RunHost } from './runHost';
+import { TestRunner } from './testRunner';
+
+/** Read from the directory the CLI runs in unless --config names another file */
+const CONFIG_FILE = 'visual-regression.config.json';
+
+const SETTINGS_PREFIX = 'visualRegression.';
+
+const EXIT_PASSED = 0;
+const EXIT_DIFFERENCES = 1;
+const EXIT_ERROR = 2;
+const EXIT_CANCELLED = 130;
+
+const USAGE = `Usage: vrt compare [options]
+       vrt recover
+
+compare   Captures the baseline ref, then compares the working copy against it.
+recover   Undoes what an interrupted compare left behind: its dev server,
+          checked-out branch, stashed changes and snapshots.
+
+Options:
+  --urls <path...>   Pages to compare (default: visual-regression.json routes and the urls setting)
+  --base <ref>       Branch, tag or commit to compare against (default: the mainBranch setting)
+  --config <file>    Settings file (default: ${CONFIG_FILE}, if present)
+  --yes              Accept prompts, e.g. stashing uncommitted changes
+  --help             Show this message
+
+Exits 0 when nothing changed, 1 when there are visual differences and 2 on errors.`;
+
+interface CliOptions {
+  urls: string[];
+  base?: string;
+  config?: string;
+  yes: boolean;
+}
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/** Prints progress to stdout and asks on the terminal, or not at all when there is none */
+class CliRunHost implements RunHost {
+  readonly logLocation = 'stderr above (set logLevel to "info" for all of it)';
+
+  constructor(private readonly assumeYes: boolean) {}
+
+  appendLine(line: string): void {
+    process.stdout.write(`${line}\n`);
+  }
+
+  show(): void {}
+
+  setStatus(): void {}
+
+  async ask(message: string, ...actions: string[]): Promise<string | undefined> {
+    // Every prompt offers the action to take first and a way out last
+    const [accept] = actions;
+    if (this.assumeYes) {
+      this.appendLine(`${message} → ${accept} (--yes)`);
+      return accept;
+    }
+    if (!process.stdin.isTTY) {
+      process.stderr.write(`${message}\nNo terminal to ask on - re-run with --yes to ${accept.toLowerCase()}.\n`);
+      return undefined;
+    }
+    const prompt = readline.createInterface({ input: process.stdin, output: process.stderr });
+    try {
+      const answer = await prompt.question(`${message} ${accept}? [y/N] `);
+      return /^y(es)?$/i.test(answer.trim()) ? accept : undefined;
+    } finally {
+      prompt.close();
+    }
+  }
+
+  notify(level: 'info' | 'error', message: string): void {
+    (level === 'error' ? process.stderr : process.stdout).write(`${message}\n`);
+  }
+
+  differencesFound(message: string): void {
+    process.stderr.write(`${message}\nRun \`npx playwright show-report\` to review them.\n`);
+  }
+
+  dispose(): void {}
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = { urls: [], yes: false };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--urls':
+        // Takes every value up to the next option
+        while (i + 1 < args.length && !args[i + 1].startsWith('--')) {
+          options.urls.push(args[++i]);
+        }
+        if (options.urls.length === 0) {
+          throw new UsageError('--urls needs at least one path');
+        }
+        break;
+      case '--base':
+      case '--config': {
+        const value = args[++i];
+        if (!value || value.startsWith('--')) {
+          throw new UsageError(`${arg} needs a value`);
+        }
+        options[arg === '--base' ? 'base' : 'config'] = value;
+        break;
+      }
+      case '--yes':
+        options.yes = true;
+        break;
+      default:
+        throw new UsageError(`Unknown option: ${arg}`);
+    }
+  }
+  return options;
+}
+
+/**
+ * Reads the same settings the extension uses, from a JSON object whose keys
+ * are written with or without the `visualRegression.` prefix - so a copy of
+ * the workspace's settings.json works as is.
+ */
+function loadSettings(workspaceRoot: string, configFile?: string): Settings {
+  const file = path.resolve(workspaceRoot, configFile ?? CONFIG_FILE);
+  if (!fs.existsSync(file)) {
+    if (configFile) {
+      throw new Error(`Config file not found: ${file}`);
+    }
+    return settingsFromObject({});
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not parse ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`${file} must contain a JSON object of settings`);
+  }
+
+  const values: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(parsed)) {
+    values[key.startsWith(SETTINGS_PREFIX) ? key.slice(SETTINGS_PREFIX.length) : key] = value;
+  }
+  return settingsFromObject(values);
+}
+
+function cacheRoot(): string {
+  return path.join(process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'), 'visual-regression-testing');
+}
+
+/** One journal per workspace, kept with the baseline cache */
+function openJournal(workspaceRoot: string): RunJournal {
+  const workspaceHash = createHash('sha256').update(workspaceRoot).digest('hex').slice(0, 12);
+  return new RunJournal(fileJournalStore(path.join(cacheRoot(), `journal-${workspaceHash}.json`)));
+}
+
+/** Cancels the run on the first Ctrl+C so it can clean up; a second one exits at once */
+function interruptSignal(): RunCancellation {
+  const listeners: (() => void)[] = [];
+  let interrupted = false;
+  process.on('SIGINT', () => {
+    if (interrupted) {
+      process.exit(EXIT_CANCELLED);
+    }
+    interrupted = true;
+    process.stderr.write('\nCancelling - press Ctrl+C again to exit without cleaning up\n');
+    listeners.forEach(listener => listener());
+  });
+  return {
+    onCancellationRequested(listener) {
+      listeners.push(listener);
+      return { dispose: () => listeners.splice(listeners.indexOf(listener), 1) };
+    },
+  };
+}
+
+async function compare(options: CliOptions): Promise<number> {
+  const workspaceRoot = process.cwd();
+  const config = loadSettings(workspaceRoot, options.config);
+  setSettingsSource(() => config);
+
+  // Starting over an interrupted run would stash or check out on top of what it left behind
+  const journal = openJournal(workspaceRoot);
+  const interrupted = journal.read();
+  if (interrupted) {
+    throw new Error(`A run started ${new Date(interrupted.startedAt).toLocaleString()} on '${interrupted.originalBranch}' was interrupted. Run \`vrt recover\` first.`);
+  }
+
+  // Server and Playwright output would drown the summary, so only warnings show unless configured
+  const runLog = RunLog.attach({ appendLine: line => process.stderr.write(`${line}\n`) });
+  runLog.setLevel(config.get<LogLevel>('logLevel', 'warn'));
+
+  // Without --urls, compare what the Test Explorer lists
+  const urlPaths = options.urls.length > 0
+    ? options.urls
+    : [...new Set([
+        ...(readRouteManifest(workspaceRoot)?.routes ?? []).map(route => route.path),
+        ...config.get<string[]>('urls', ['/']),
+      ])];
+
+  const testRunner = new TestRunner(
+    new GitService(workspaceRoot),
+    new ServerService(workspaceRoot),
+    new PlaywrightService(workspaceRoot),
+    config,
+    new CliRunHost(options.yes),
+    new BaselineCacheService(cacheRoot()),
+    journal,
+  );
+
+  try {
+    const result = await testRunner.runTest(
+      urlPaths,
+      { report: () => {} },
+      options.base ? { ref: options.base, label: options.base } : undefined,
+      interruptSignal(),
+    );
+    return result.success ? EXIT_PASSED : EXIT_DIFFERENCES;
+  } finally {
+    testRunner.dispose();
+  }
+}
+
+async function recover(): Promise<number> {
+  const workspaceRoot = process.cwd();
+  const journal = openJournal(workspaceRoot);
+  const entry = journal.read();
+  if (!entry) {
+    process.stdout.write('No interrupted run to recover.\n');
+    return EXIT_PASSED;
+  }
+  const restored = await restoreWorkspace(entry, workspaceRoot);
+  await journal.finish();
+  process.stdout.write(`Workspace restored: ${restored.join(', ')}\n`);
+  return EXIT_PASSED;
+}
+
+async function main(args: string[]): Promise<number> {
+  const [command, ...rest] = args;
+  if (!command || command === '--help' || rest.includes('--help')) {
+    process.stdout.write(`${USAGE}\n`);
+    return command ? EXIT_PASSED : EXIT_ERROR;
+  }
+  if (command === 'recover') {
+    if (rest.length > 0) {
+      throw new UsageError(`Unknown option: ${rest[0]}`);
+    }
+    return recover();
+  }
+  if (command !== 'compare') {
+    throw new UsageError(`Unknown command: ${command}`);
+  }
+  return compare(parseArgs(rest));
+}
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  (error) => {
+    if (error instanceof CancelledError) {
+      process.stderr.write('Visual regression run cancelled. Your branch and dev server have been restored.\n');
+      process.exit(EXIT_CANCELLED);
+    }
+    process.stderr.write(`vrt: ${error instanceof Error ? error.message : String(error)}\n`);
+    if (error instanceof UsageError) {
+      process.stderr.write(`\n${USAGE}\n`);
+    }
+    process.exit(EXIT_ERROR);
+  },
+);
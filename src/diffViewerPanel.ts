@@ -0,0 +1,338 @@
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+import { buildMatrix } from './services/captureMatrix';
+import { GitService } from './services/gitService';
+import { readRouteManifest } from './services/routeManifest';
+import { SnapshotDiff, SnapshotService } from './services/snapshotService';
+
+const REJECTED_KEY = 'visualRegression.rejectedDiffs';
+
+interface ViewerMessage {
+  type: 'refresh' | 'accept' | 'reject' | 'acceptAll';
+  index?: number;
+}
+
+/**
+ * In-editor viewer for failed screenshot comparisons: side-by-side, swipe
+ * slider, onion skin and diff-only modes with shared zoom and pan.
+ */
+export class DiffViewerPanel {
+  private static current: DiffViewerPanel | undefined;
+
+  private readonly disposables: vscode.Disposable[] = [];
+  private diffs: SnapshotDiff[] = [];
+
+  static show(context: vscode.ExtensionContext, workspaceFolder: vscode.WorkspaceFolder): void {
+    if (DiffViewerPanel.current) {
+      DiffViewerPanel.current.panel.reveal(vscode.ViewColumn.Active);
+      DiffViewerPanel.current.refresh();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'visualRegression.diffViewer',
+      'Visual Regression Diffs',
+      vscode.ViewColumn.Active,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: [workspaceFolder.uri],
+      },
+    );
+    DiffViewerPanel.current = new DiffViewerPanel(panel, context, workspaceFolder);
+  }
+
+  /** Re-reads test-results if the viewer is open, e.g. after accepting from elsewhere. */
+  static refreshIfOpen(): void {
+    DiffViewerPanel.current?.refresh();
+  }
+
+  private constructor(
+    private readonly panel: vscode.WebviewPanel,
+    private readonly context: vscode.ExtensionContext,
+    private readonly workspaceFolder: vscode.WorkspaceFolder,
+  ) {
+    this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+    this.panel.webview.onDidReceiveMessage(
+      (message: ViewerMessage) => this.handleMessage(message),
+      null,
+      this.disposables,
+    );
+    this.refresh();
+  }
+
+  private createSnapshotService(): SnapshotService {
+    const config = vscode.workspace.getConfiguration('visualRegression');
+    const root = this.workspaceFolder.uri.fsPath;
+    return new SnapshotService(
+      root,
+      config.get<string>('testPath', 'tests/visual'),
+      new GitService(root),
+    );
+  }
+
+  private refresh(): void {
+    const snapshotService = this.createSnapshotService();
+    this.diffs = snapshotService.findDiffs();
+
+    // A rejection only applies to one comparison result; drop those whose result is gone
+    const current = new Set(this.diffs.map(diff => snapshotService.reviewKey(diff)));
+    const rejected = this.context.workspaceState.get<string[]>(REJECTED_KEY, []);
+    const stillRejected = rejected.filter(key => current.has(key));
+    if (stillRejected.length !== rejected.length) {
+      this.context.workspaceState.update(REJECTED_KEY, stillRejected);
+    }
+
+    this.panel.webview.html = this.getHtml(this.diffs);
+  }
+
+  private async handleMessage(message: ViewerMessage): Promise<void> {
+    if (message.type === 'refresh') {
+      this.refresh();
+      return;
+    }
+
+    const diff = message.index === undefined ? undefined : this.diffs[message.index];
+    if (!diff) {
+      return;
+    }
+
+    const snapshotService = this.createSnapshotService();
+    try {
+      if (message.type === 'reject') {
+        const rejected = this.context.workspaceState.get<string[]>(REJECTED_KEY, []);
+        await this.context.workspaceState.update(REJECTED_KEY, [...rejected, snapshotService.reviewKey(diff)]);
+      } else {
+        const page = message.type === 'acceptAll' ? this.findPage(snapshotService, diff) : undefined;
+        const toAccept = page?.diffs ?? [diff];
+        for (const item of toAccept) {
+          await snapshotService.accept(item);
+        }
+        vscode.window.showInformationMessage(
+          `✅ Accepted ${toAccept.length} screenshot(s) for ${page?.urlPath ?? diff.name} and staged the new baseline(s)`,
+        );
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to update baseline: ${error instanceof Error ? error.message : error}`);
+    }
+    this.refresh();
+  }
+
+  /**
+   * The Test Explorer page a screenshot belongs to, with every difference
+   * for it: all matrix cells and element screenshots, as acceptAllForUrl finds them.
+   */
+  private findPage(snapshotService: SnapshotService, diff: SnapshotDiff): { urlPath: string; diffs: SnapshotDiff[] } | undefined {
+    const config = vscode.workspace.getConfiguration('visualRegression');
+    const manifestRoutes = readRouteManifest(this.workspaceFolder.uri.fsPath)?.routes ?? [];
+    const urlPaths = [...new Set([...manifestRoutes.map(route => route.path), ...config.get<string[]>('urls', ['/'])])];
+    const cells = buildMatrix(config).map(cell => cell.name);
+    for (const urlPath of urlPaths) {
+      const diffs = snapshotService.findDiffsForUrl(urlPath, cells);
+      if (diffs.some(other => other.actual === diff.actual)) {
+        return { urlPath, diffs };
+      }
+    }
+    return undefined;
+  }
+
+  private toWebviewUri(file: string | undefined): string | null {
+    return file ? this.panel.webview.asWebviewUri(vscode.Uri.file(file)).toString() : null;
+  }
+
+  private getHtml(diffs: SnapshotDiff[]): string {
+    const webview = this.panel.webview;
+    const nonce = getNonce();
+    const root = this.workspaceFolder.uri.fsPath;
+    const snapshotService = this.createSnapshotService();
+    const rejected = new Set(this.context.workspaceState.get<string[]>(REJECTED_KEY, []));
+    const entries = diffs.map((diff) => ({
+      name: diff.name,
+      location: path.relative(root, diff.resultDir),
+      rejected: rejected.has(snapshotService.reviewKey(diff)),
+      canAccept: Boolean(diff.baseline ?? diff.newBaseline),
+      expected: this.toWebviewUri(diff.expected ?? diff.baseline),
+      actual: this.toWebviewUri(diff.actual),
+      diff: this.toWebviewUri(diff.diff),
+    }));
+    // Escape "<" so a snapshot name can never close the script tag
+    const entriesJson = JSON.stringify(entries).replace(/</g, '\\u003c');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource}; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Visual Regression Diffs</title>
+  <style nonce="${nonce}">
+    body { padding: 0; margin: 0; color: var(--vscode-foreground); font-family: var(--vscode-font-family); }
+    .toolbar { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; padding: 8px 12px; border-bottom: 1px solid var(--vscode-panel-border); }
+    .toolbar button, .toolbar select { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); border: none; padding: 4px 10px; cursor: pointer; }
+    .toolbar button.active { background: var(--vscode-button-background); color: var(--vscode-button-foreground); }
+    .location { opacity: 0.7; font-size: 0.9em; }
+    .stage { position: relative; overflow: hidden; height: calc(100vh - 50px); cursor: grab; display: flex; }
+    .stage.dragging { cursor: grabbing; }
+    .pane { position: relative; flex: 1; overflow: hidden; border-right: 1px solid var(--vscode-panel-border); }
+    .pane:last-child { border-right: none; }
+    .label { position: absolute; top: 4px; left: 8px; z-index: 2; font-size: 0.8em; padding: 2px 6px; background: var(--vscode-badge-background); color: var(--vscode-badge-foreground); }
+    .layer { position: absolute; top: 0; left: 0; transform-origin: 0 0; }
+    .layer img { position: absolute; top: 0; left: 0; display: block; image-rendering: pixelated; }
+    .empty { padding: 24px; }
+    .badge { font-size: 0.8em; padding: 2px 6px; background: var(--vscode-inputValidation-errorBackground); }
+    .hidden { display: none; }
+  </style>
+</head>
+<body>
+  <div class="toolbar">
+    <select id="entry"></select>
+    <span class="location" id="location"></span>
+    <button data-mode="side">Side by side</button>
+    <button data-mode="slider">Slider</button>
+    <button data-mode="onion">Onion skin</button>
+    <button data-mode="diff">Diff only</button>
+    <input type="range" id="amount" min="0" max="100" value="50">
+    <button id="zoomOut">−</button>
+    <span id="zoomLabel">100%</span>
+    <button id="zoomIn">+</button>
+    <button id="zoomReset">Reset</button>
+    <button id="refresh">Refresh</button>
+    <button id="accept" title="Copy the actual screenshot over the baseline and stage it">Accept change</button>
+    <button id="acceptAll" title="Accept every screenshot for this page">Accept all for this URL</button>
+    <button id="reject">Reject</button>
+    <span class="badge hidden" id="rejected">Rejected</span>
+  </div>
+  <div class="stage" id="stage"></div>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const entries = ${entriesJson};
+    const state = Object.assign({ index: 0, mode: 'side', amount: 50, zoom: 1, x: 0, y: 0 }, vscode.getState() || {});
+    const stage = document.getElementById('stage');
+    const select = document.getElementById('entry');
+    const amount = document.getElementById('amount');
+
+    function img(src, extra) {
+      if (!src) { return ''; }
+      return '<img src="' + src + '"' + (extra ? ' ' + extra : '') + '>';
+    }
+
+    function pane(label, content) {
+      return '<div class="pane"><span class="label">' + label + '</span><div class="layer">' + content + '</div></div>';
+    }
+
+    function render() {
+      vscode.setState(state);
+      if (entries.length === 0) {
+        stage.innerHTML = '<div class="empty">No screenshot differences found in test-results/. Run a visual regression test first.</div>';
+        return;
+      }
+      const entry = entries[Math.min(state.index, entries.length - 1)];
+      document.getElementById('location').textContent = entry.location;
+      document.getElementById('rejected').classList.toggle('hidden', !entry.rejected);
+      document.getElementById('accept').disabled = !entry.canAccept;
+      document.getElementById('acceptAll').disabled = !entry.canAccept;
+      document.querySelectorAll('[data-mode]').forEach(b => b.classList.toggle('active', b.dataset.mode === state.mode));
+      amount.classList.toggle('hidden', state.mode !== 'slider' && state.mode !== 'onion');
+      amount.value = state.amount;
+
+      if (state.mode === 'side') {
+        stage.innerHTML = pane('Expected', img(entry.expected)) + pane('Actual', img(entry.actual));
+      } else if (state.mode === 'slider') {
+        stage.innerHTML = pane('Expected ◀ ▶ Actual', img(entry.actual) + img(entry.expected, 'id="top"'));
+      } else if (state.mode === 'onion') {
+        stage.innerHTML = pane('Expected / Actual', img(entry.expected) + img(entry.actual, 'id="top"'));
+      } else {
+        stage.innerHTML = pane('Diff', entry.diff ? img(entry.diff) : '<div class="empty">No diff image (new snapshot)</div>');
+      }
+      applyAmount();
+      applyTransform();
+    }
+
+    function applyAmount() {
+      const top = document.getElementById('top');
+      if (!top) { return; }
+      if (state.mode === 'slider') {
+        top.style.clipPath = 'inset(0 ' + (100 - state.amount) + '% 0 0)';
+      } else {
+        top.style.opacity = String(state.amount / 100);
+      }
+    }
+
+    function applyTransform() {
+      document.querySelectorAll('.layer').forEach(layer => {
+        layer.style.transform = 'translate(' + state.x + 'px, ' + state.y + 'px) scale(' + state.zoom + ')';
+      });
+      document.getElementById('zoomLabel').textContent = Math.round(state.zoom * 100) + '%';
+    }
+
+    function zoomBy(factor) {
+      state.zoom = Math.min(16, Math.max(0.1, state.zoom * factor));
+      applyTransform();
+      vscode.setState(state);
+    }
+
+    entries.forEach((entry, i) => {
+      const option = document.createElement('option');
+      option.value = String(i);
+      option.textContent = (entry.rejected ? '✗ ' : '') + entry.name;
+      select.appendChild(option);
+    });
+    select.value = String(Math.min(state.index, Math.max(entries.length - 1, 0)));
+    select.addEventListener('change', () => { state.index = Number(select.value); render(); });
+
+    document.querySelectorAll('[data-mode]').forEach(button => {
+      button.addEventListener('click', () => { state.mode = button.dataset.mode; render(); });
+    });
+    amount.addEventListener('input', () => { state.amount = Number(amount.value); applyAmount(); vscode.setState(state); });
+    document.getElementById('zoomIn').addEventListener('click', () => zoomBy(1.25));
+    document.getElementById('zoomOut').addEventListener('click', () => zoomBy(0.8));
+    document.getElementById('zoomReset').addEventListener('click', () => { state.zoom = 1; state.x = 0; state.y = 0; applyTransform(); vscode.setState(state); });
+    document.getElementById('refresh').addEventListener('click', () => vscode.postMessage({ type: 'refresh' }));
+    ['accept', 'acceptAll', 'reject'].forEach(type => {
+      document.getElementById(type).addEventListener('click', () => vscode.postMessage({ type, index: state.index }));
+    });
+
+    stage.addEventListener('wheel', (event) => {
+      event.preventDefault();
+      zoomBy(event.deltaY < 0 ? 1.1 : 0.9);
+    }, { passive: false });
+
+    let drag = null;
+    stage.addEventListener('mousedown', (event) => {
+      drag = { x: event.clientX - state.x, y: event.clientY - state.y };
+      stage.classList.add('dragging');
+    });
+    window.addEventListener('mousemove', (event) => {
+      if (!drag) { return; }
+      state.x = event.clientX - drag.x;
+      state.y = event.clientY - drag.y;
+      applyTransform();
+    });
+    window.addEventListener('mouseup', () => {
+      if (drag) { vscode.setState(state); }
+      drag = null;
+      stage.classList.remove('dragging');
+    });
+
+    render();
+  </script>
+</body>
+</html>`;
+  }
+
+  private dispose(): void {
+    DiffViewerPanel.current = undefined;
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+  }
+}
+
+function getNonce(): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let nonce = '';
+  for (let i = 0; i < 32; i++) {
+    nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return nonce;
+}
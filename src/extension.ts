@@ -1,9 +1,23 @@
 import * as vscode from "vscode";
 import { VisualRegressionController } from "./visualRegressionController";
+import { DiffViewerPanel } from "./diffViewerPanel";
+import { SnapshotService } from "./services/snapshotService";
+import { BaselineCacheService } from "./services/baselineCacheService";
 import { GitService } from "./services/gitService";
 import { PlaywrightService } from "./services/playwrightService";
 import { ServerService } from "./services/serverService";
 import { TestRunner } from "./testRunner";
+import { VisualTestController } from "./visualTestController";
+import { pickUrlPaths } from "./routePicker";
+import { BaselineRef, pickBaselineRef } from "./refPicker";
+import { CancelledError } from "./services/cancellation";
+import { RunJournal } from "./services/runJournal";
+import { buildMatrix } from "./services/captureMatrix";
+import { offerRunRecovery } from "./runRecovery";
+import { ManifestDiagnostics } from "./manifestDiagnostics";
+import { LogLevel, RunLog } from "./services/runLog";
+import { VscodeRunHost } from "./vscodeRunHost";
+import { setSettingsSource } from "./services/settings";
 
 let controller: VisualRegressionController | undefined;
 
@@ -16,6 +30,9 @@ export function activate(context: vscode.ExtensionContext) {
     return;
   }
 
+  // The shared services read the workspace settings, as the CLI reads its config file
+  setSettingsSource(() => vscode.workspace.getConfiguration("visualRegression"));
+
   // Show tip about disabling Playwright Test UI on first activation
   const hasShownTip = context.globalState.get<boolean>('hasShownPlaywrightTip', false);
   if (!hasShownTip) {
@@ -41,6 +58,35 @@ export function activate(context: vscode.ExtensionContext) {
   // Initialize controller
   controller = new VisualRegressionController(context, workspaceFolder);
 
+  // Baselines are cached per main-branch commit, shared across workspaces
+  const baselineCache = new BaselineCacheService(context.globalStorageUri.fsPath);
+
+  // Server and Playwright output is streamed to its own channel
+  const runLog = RunLog.attach(vscode.window.createOutputChannel("Visual Regression: Logs"));
+  const readLogLevel = () =>
+    vscode.workspace.getConfiguration("visualRegression").get<LogLevel>("logLevel", "info");
+  runLog.setLevel(readLogLevel());
+  context.subscriptions.push(
+    runLog,
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("visualRegression.logLevel")) {
+        runLog.setLevel(readLogLevel());
+      }
+    }),
+  );
+
+  // Runs journal their progress so an interrupted one can be undone.
+  // Offered once the log channel is attached, so what recovery logs is kept
+  const runJournal = new RunJournal(context.workspaceState);
+  offerRunRecovery(runJournal, workspaceFolder);
+
+  // Validate visual-regression.json and keep the Test Explorer in sync with it
+  const manifestDiagnostics = new ManifestDiagnostics(workspaceFolder);
+  context.subscriptions.push(manifestDiagnostics);
+
+  // Expose configured URLs in the Test Explorer
+  new VisualTestController(context, workspaceFolder, baselineCache, runJournal, manifestDiagnostics);
+
   // Register status bar menu command
   context.subscriptions.push(
     vscode.commands.registerCommand(
@@ -48,6 +94,8 @@ export function activate(context: vscode.ExtensionContext) {
       async () => {
         const options = [
           { label: "$(play) Run Test", command: "visualRegression.runTest" },
+          { label: "$(git-compare) Run Test Against Ref...", command: "visualRegression.runTestAgainstRef" },
+          { label: "$(diff) Open Diff Viewer", command: "visualRegression.showDiffViewer" },
           { label: "$(graph) Show Report", command: "visualRegression.showReport" },
         ];
         
@@ -66,25 +114,16 @@ export function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     vscode.commands.registerCommand(
       "visualRegression.runTest",
-      async () => {
+      async (presetUrlPaths?: string[], baseline?: BaselineRef) => {
         const config = vscode.workspace.getConfiguration("visualRegression");
 
-        const urlInput = await vscode.window.showInputBox({
-          prompt: "Enter URL path(s) to test (comma-separated or one per line, e.g., /access-denied, /unauthorised)",
-          value: "/",
-          placeHolder: "/path1, /path2 or /path1\n/path2",
-        });
-
-        if (!urlInput) {
+        const urlPaths = Array.isArray(presetUrlPaths)
+          ? presetUrlPaths
+          : await pickUrlPaths(workspaceFolder, config);
+        if (!urlPaths || urlPaths.length === 0) {
           return;
         }
 
-        // Parse multiple URLs - support both comma-separated and newline-separated
-        const urlPaths = urlInput
-          .split(/[,\n]/)
-          .map(url => url.trim())
-          .filter(url => url.length > 0);
-
         if (!workspaceFolder) {
           vscode.window.showErrorMessage("No workspace folder open");
           return;
@@ -101,6 +140,9 @@ export function activate(context: vscode.ExtensionContext) {
           serverService,
           playwrightService,
           config,
+          new VscodeRunHost(workspaceFolder.uri.fsPath),
+          baselineCache,
+          runJournal,
         );
 
         try {
@@ -108,13 +150,19 @@ export function activate(context: vscode.ExtensionContext) {
             {
               location: vscode.ProgressLocation.Notification,
               title: "Running Visual Regression Test",
-              cancellable: false,
+              cancellable: true,
             },
-            async (progress) => {
-              await testRunner.runTest(urlPaths, progress);
+            async (progress, token) => {
+              await testRunner.runTest(urlPaths, progress, baseline, token);
             },
           );
         } catch (error) {
+          if (error instanceof CancelledError) {
+            vscode.window.showInformationMessage(
+              "Visual regression test cancelled. Your branch and dev server have been restored.",
+            );
+            return;
+          }
           const errorMsg = error instanceof Error ? error.message : String(error);
           console.error('[Extension] Full error:', error);
           vscode.window.showErrorMessage(
@@ -131,9 +179,135 @@ export function activate(context: vscode.ExtensionContext) {
         await controller?.runWorkflow();
       },
     ),    
+    vscode.commands.registerCommand(
+      "visualRegression.runTestAgainstRef",
+      async () => {
+        const config = vscode.workspace.getConfiguration("visualRegression");
+        let baseline: BaselineRef | undefined;
+        try {
+          baseline = await pickBaselineRef(
+            new GitService(workspaceFolder.uri.fsPath),
+            config.get<string>("mainBranch", "main"),
+          );
+        } catch (error) {
+          vscode.window.showErrorMessage(`Could not list git refs: ${error}`);
+          return;
+        }
+        if (!baseline) {
+          return;
+        }
+
+        const urlPaths = await pickUrlPaths(workspaceFolder, config);
+        if (!urlPaths || urlPaths.length === 0) {
+          return;
+        }
+        await vscode.commands.executeCommand(
+          "visualRegression.runTest",
+          urlPaths,
+          baseline,
+        );
+      },
+    ),
+    vscode.commands.registerCommand(
+      "visualRegression.runChangedPages",
+      async () => {
+        await controller?.runChangedPages();
+      },
+    ),
+    vscode.commands.registerCommand(
+      "visualRegression.showBaselineCache",
+      async () => {
+        const entries = baselineCache.list();
+        if (entries.length === 0) {
+          vscode.window.showInformationMessage("The baseline cache is empty");
+          return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+          entries.map(entry => ({
+            label: `${entry.ref} @ ${entry.sha.slice(0, 8)}`,
+            description: `${entry.urls.length} URL(s): ${entry.urls.join(", ")}`,
+            detail: `${new Date(entry.createdAt).toLocaleString()} · ${entry.workspace}`,
+            entry,
+          })),
+          { placeHolder: "Cached baselines (select one to delete it)" },
+        );
+        if (!selected) {
+          return;
+        }
+
+        const action = await vscode.window.showWarningMessage(
+          `Delete cached baseline ${selected.label}?`,
+          "Delete",
+          "Cancel",
+        );
+        if (action === "Delete") {
+          await baselineCache.remove(selected.entry.key);
+        }
+      },
+    ),
+    vscode.commands.registerCommand(
+      "visualRegression.clearBaselineCache",
+      async () => {
+        const proceed = await vscode.window.showWarningMessage(
+          "This will delete all cached baseline screenshots. Continue?",
+          { modal: true },
+          "Clear Cache",
+        );
+        if (proceed === "Clear Cache") {
+          await baselineCache.clear();
+          vscode.window.showInformationMessage("✅ Baseline cache cleared");
+        }
+      },
+    ),
+    vscode.commands.registerCommand("visualRegression.showLogs", () => {
+      runLog.show();
+    }),
     vscode.commands.registerCommand("visualRegression.showReport", async () => {
       await controller?.showReport();
     }),
+    vscode.commands.registerCommand("visualRegression.showDiffViewer", () => {
+      DiffViewerPanel.show(context, workspaceFolder);
+    }),
+    vscode.commands.registerCommand(
+      "visualRegression.acceptAllForUrl",
+      async (item?: vscode.TestItem) => {
+        const config = vscode.workspace.getConfiguration("visualRegression");
+        const urlPath = item?.id ?? await vscode.window.showQuickPick(
+          config.get<string[]>("urls", ["/"]),
+          { placeHolder: "Accept all screenshot changes for which URL?" },
+        );
+        if (!urlPath) {
+          return;
+        }
+
+        const root = workspaceFolder.uri.fsPath;
+        const snapshotService = new SnapshotService(
+          root,
+          config.get<string>("testPath", "tests/visual"),
+          new GitService(root),
+        );
+        const cells = buildMatrix(config).map(cell => cell.name);
+        const diffs = snapshotService.findDiffsForUrl(urlPath, cells);
+        if (diffs.length === 0) {
+          vscode.window.showInformationMessage(`No screenshot differences found for ${urlPath}`);
+          return;
+        }
+
+        try {
+          for (const diff of diffs) {
+            await snapshotService.accept(diff);
+          }
+          vscode.window.showInformationMessage(
+            `✅ Accepted ${diffs.length} screenshot(s) for ${urlPath} and staged the new baseline(s)`,
+          );
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          vscode.window.showErrorMessage(`Failed to update baseline: ${errorMsg}`);
+        }
+        DiffViewerPanel.refreshIfOpen();
+      },
+    ),
     
   );
 
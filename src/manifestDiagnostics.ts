@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import { MANIFEST_FILE, parseRouteManifest, RouteManifest } from './services/routeManifest';
+
+/**
+ * Validates visual-regression.json as it is edited and on disk, showing the
+ * problems in the Problems panel, and tells listeners when its routes change.
+ */
+export class ManifestDiagnostics implements vscode.Disposable {
+  private readonly diagnostics = vscode.languages.createDiagnosticCollection('visualRegression');
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly manifestUri: vscode.Uri;
+
+  /** Fires after the manifest has been created, changed or deleted */
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(workspaceFolder: vscode.WorkspaceFolder) {
+    this.manifestUri = vscode.Uri.joinPath(workspaceFolder.uri, MANIFEST_FILE);
+
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(workspaceFolder, MANIFEST_FILE),
+    );
+    watcher.onDidCreate(() => this.validateFile());
+    watcher.onDidChange(() => this.validateFile());
+    watcher.onDidDelete(() => {
+      this.diagnostics.delete(this.manifestUri);
+      this.changeEmitter.fire();
+    });
+
+    this.disposables.push(
+      watcher,
+      this.diagnostics,
+      this.changeEmitter,
+      // Validate unsaved edits too, so mistakes show up while typing
+      vscode.workspace.onDidChangeTextDocument((e) => {
+        if (e.document.uri.toString() === this.manifestUri.toString()) {
+          this.validate(e.document);
+        }
+      }),
+    );
+
+    this.validateFile();
+  }
+
+  private async validateFile(): Promise<void> {
+    try {
+      const document = await vscode.workspace.openTextDocument(this.manifestUri);
+      this.validate(document);
+    } catch {
+      // No manifest in this workspace
+      this.diagnostics.delete(this.manifestUri);
+    }
+    this.changeEmitter.fire();
+  }
+
+  private validate(document: vscode.TextDocument): RouteManifest {
+    const manifest = parseRouteManifest(document.getText(), document.uri.fsPath);
+    this.diagnostics.set(
+      this.manifestUri,
+      manifest.problems.map((problem) => {
+        const diagnostic = new vscode.Diagnostic(
+          new vscode.Range(document.positionAt(problem.start), document.positionAt(problem.end)),
+          problem.message,
+          problem.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning,
+        );
+        diagnostic.source = 'Visual Regression';
+        return diagnostic;
+      }),
+    );
+    return manifest;
+  }
+
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose());
+  }
+}
@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import { GitService } from './services/gitService';
+
+export interface BaselineRef {
+  /** What git is asked to check out: a branch, tag or commit SHA */
+  ref: string;
+  /** How the ref is described in the output and summary */
+  label: string;
+}
+
+interface RefQuickPickItem extends vscode.QuickPickItem {
+  baselineRef?: BaselineRef;
+}
+
+const RECENT_COMMIT_COUNT = 20;
+
+/**
+ * Lets the user choose what to compare against: the merge-base with the main
+ * branch, any branch or tag, or a recent commit.
+ */
+export async function pickBaselineRef(
+  gitService: GitService,
+  mainBranch: string,
+): Promise<BaselineRef | undefined> {
+  const [branches, tags, commits] = await Promise.all([
+    gitService.listBranches(),
+    gitService.listTags(),
+    gitService.listRecentCommits(RECENT_COMMIT_COUNT),
+  ]);
+
+  const items: RefQuickPickItem[] = [
+    {
+      label: `$(git-merge) Merge-base with ${mainBranch}`,
+      description: 'Where your branch forked',
+      baselineRef: { ref: '', label: `merge-base with ${mainBranch}` },
+    },
+    {
+      label: `$(git-branch) ${mainBranch}`,
+      description: 'Tip of the main branch',
+      baselineRef: { ref: mainBranch, label: mainBranch },
+    },
+    { label: 'Branches', kind: vscode.QuickPickItemKind.Separator },
+    ...branches
+      .filter(branch => branch !== mainBranch)
+      .map(branch => ({
+        label: `$(git-branch) ${branch}`,
+        baselineRef: { ref: branch, label: branch },
+      })),
+    { label: 'Tags', kind: vscode.QuickPickItemKind.Separator },
+    ...tags.map(tag => ({
+      label: `$(tag) ${tag}`,
+      baselineRef: { ref: tag, label: tag },
+    })),
+    { label: 'Recent commits', kind: vscode.QuickPickItemKind.Separator },
+    ...commits.map(commit => ({
+      label: `$(git-commit) ${commit.sha.slice(0, 8)}`,
+      description: commit.subject,
+      detail: `${commit.author}, ${commit.date}`,
+      baselineRef: { ref: commit.sha, label: commit.sha.slice(0, 8) },
+    })),
+  ];
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Compare against...',
+    matchOnDescription: true,
+  });
+  if (!selected?.baselineRef) {
+    return undefined;
+  }
+
+  if (selected.baselineRef.ref === '') {
+    const mergeBase = await gitService.getMergeBase(mainBranch);
+    return { ref: mergeBase, label: selected.baselineRef.label };
+  }
+  return selected.baselineRef;
+}
@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import { DiscoveredRoute, RouteDiscoveryService } from './services/routeDiscoveryService';
+import { MANIFEST_FILE, readRouteManifest } from './services/routeManifest';
+
+interface RouteQuickPickItem extends vscode.QuickPickItem {
+  route?: DiscoveredRoute;
+}
+
+const SOURCE_LABELS: Record<DiscoveredRoute['source'], string> = {
+  'next-app': 'Next.js app',
+  'next-pages': 'Next.js pages',
+  sveltekit: 'SvelteKit',
+  remix: 'Remix',
+  config: 'settings',
+  manifest: MANIFEST_FILE,
+};
+
+/**
+ * Offers the discovered routes as a multi-select list, with an escape hatch
+ * to type paths by hand. Returns undefined if the user cancels.
+ */
+export async function pickUrlPaths(
+  workspaceFolder: vscode.WorkspaceFolder,
+  config: vscode.WorkspaceConfiguration,
+): Promise<string[] | undefined> {
+  const staticPaths = config.get<string[]>('urls', ['/']);
+  const routeParams = config.get<Record<string, string>>('routeParams', {});
+  const manifestRoutes = readRouteManifest(workspaceFolder.uri.fsPath)?.routes ?? [];
+  const { routes, unresolved } = new RouteDiscoveryService(workspaceFolder.uri.fsPath)
+    .discover(staticPaths, routeParams, manifestRoutes);
+
+  if (unresolved.length > 0) {
+    console.log(`[Routes] Skipped ${unresolved.length} route(s) without example values: ${unresolved.join(', ')}`);
+  }
+
+  const manualItem: RouteQuickPickItem = {
+    label: '$(edit) Enter URL paths manually...',
+    alwaysShow: true,
+  };
+  const items: RouteQuickPickItem[] = routes.map(route => ({
+    label: route.path,
+    description: [
+      route.name,
+      route.pattern === route.path ? undefined : route.pattern,
+      SOURCE_LABELS[route.source],
+    ].filter(Boolean).join(' · '),
+    detail: route.file,
+    picked: staticPaths.includes(route.path) || route.source === 'manifest',
+    route,
+  }));
+
+  const selected = await vscode.window.showQuickPick([...items, manualItem], {
+    canPickMany: true,
+    matchOnDescription: true,
+    placeHolder: unresolved.length > 0
+      ? `Select pages to test (${unresolved.length} dynamic route(s) hidden - add example values in visualRegression.routeParams)`
+      : 'Select pages to test',
+  });
+
+  if (!selected || selected.length === 0) {
+    return undefined;
+  }
+
+  const picked = selected.filter(item => item.route).map(item => item.route!.path);
+  if (selected.includes(manualItem)) {
+    return promptForUrlPaths(picked.length > 0 ? picked : staticPaths);
+  }
+  return picked;
+}
+
+async function promptForUrlPaths(initial: string[]): Promise<string[] | undefined> {
+  const urlInput = await vscode.window.showInputBox({
+    prompt: 'Enter URL path(s) to test (comma-separated or one per line, e.g., /access-denied, /unauthorised)',
+    value: initial.join(', '),
+    placeHolder: '/path1, /path2 or /path1\n/path2',
+  });
+
+  if (!urlInput) {
+    return undefined;
+  }
+
+  // Parse multiple URLs - support both comma-separated and newline-separated
+  return urlInput
+    .split(/[,\n]/)
+    .map(url => url.trim())
+    .filter(url => url.length > 0);
+}
@@ -0,0 +1,31 @@
+/**
+ * Everything a run needs from whoever started it: somewhere to print its
+ * progress, a way to ask the user, and a way to report the outcome. VS Code
+ * and the CLI each provide one, so TestRunner itself never touches either.
+ */
+export interface RunHost {
+  /** The step-by-step progress and final summary */
+  appendLine(line: string): void;
+  /** Where the server and Playwright output went, for the summary of a failed run */
+  readonly logLocation: string;
+  /** Brings the progress into view as a run starts */
+  show(): void;
+  /** Shows the step in progress; an empty string clears it */
+  setStatus(text: string): void;
+  /** Asks before doing something the user may not want; resolves with the chosen action, or undefined */
+  ask(message: string, ...actions: string[]): Promise<string | undefined>;
+  notify(level: 'info' | 'error', message: string): void;
+  /** Reports a run that found visual differences */
+  differencesFound(message: string): void;
+  dispose(): void;
+}
+
+/** vscode.Progress satisfies it */
+export interface RunProgress {
+  report(value: { message?: string; increment?: number }): void;
+}
+
+/** vscode.CancellationToken satisfies it */
+export interface RunCancellation {
+  onCancellationRequested(listener: () => void): { dispose(): void };
+}
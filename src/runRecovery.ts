@@ -0,0 +1,46 @@
+import * as vscode from 'vscode';
+import { restoreWorkspace, RunJournal } from './services/runJournal';
+import { RunLog } from './services/runLog';
+
+/**
+ * Checks for a run that was interrupted before its cleanup and offers to put
+ * the branch, snapshots and dev server port back the way they were.
+ */
+export async function offerRunRecovery(
+  journal: RunJournal,
+  workspaceFolder: vscode.WorkspaceFolder,
+): Promise<void> {
+  const entry = journal.read();
+  if (!entry) {
+    return;
+  }
+
+  RunLog.get().info('recovery', `Found unfinished run: ${JSON.stringify(entry)}`);
+  const startedAt = new Date(entry.startedAt).toLocaleString();
+  const action = await vscode.window.showWarningMessage(
+    `A visual regression run started ${startedAt} was interrupted during "${entry.step}". ` +
+    `Restore branch '${entry.originalBranch}' and its snapshots${entry.serverPid ? `, and stop the dev server on port ${entry.serverPort}` : ''}?`,
+    'Restore',
+    'Discard'
+  );
+
+  if (action === 'Discard') {
+    await journal.finish();
+    return;
+  }
+  if (action !== 'Restore') {
+    // Ask again next time
+    return;
+  }
+
+  try {
+    const restored = await restoreWorkspace(entry, workspaceFolder.uri.fsPath);
+    await journal.finish();
+    RunLog.get().info('recovery', `Workspace restored: ${restored.join(', ')}`);
+    vscode.window.showInformationMessage(`✅ Workspace restored: ${restored.join(', ')}`);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    RunLog.get().log('error', 'recovery', `Failed to restore workspace: ${errorMsg}`);
+    vscode.window.showErrorMessage(`Could not restore workspace: ${errorMsg}`);
+  }
+}
@@ -0,0 +1,106 @@
+import { createHash } from 'node:crypto';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { ManifestAction } from './routeManifest';
+import { RunLog } from './runLog';
+import { Settings } from './settings';
+
+/**
+ * A signed-in user to capture every page as. Each role logs in once per
+ * server and its pages get their own snapshot set, named with the role.
+ */
+export interface AuthRole {
+  name: string;
+  /**
+   * Node script that logs in and saves Playwright storage state to
+   * `STORAGE_STATE`, using `BASE_URL` as the server address
+   */
+  setupScript?: string;
+  /** Recorded login flow: the page to open, then the steps to run on it */
+  loginUrl?: string;
+  steps?: ManifestAction[];
+  /** URL (or glob) that marks the login as finished */
+  waitForUrl?: string;
+}
+
+const ROLE_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+export function configuredAuthRoles(config: Settings): AuthRole[] {
+  return config.get<AuthRole[]>('authRoles', []).filter((role) => {
+    if (!ROLE_NAME_PATTERN.test(role.name ?? '')) {
+      RunLog.get().log('warn', 'auth', `Skipping role with invalid name "${role.name}"`);
+      return false;
+    }
+    if (!role.setupScript && !role.loginUrl) {
+      RunLog.get().log('warn', 'auth', `Skipping role "${role.name}": needs a setupScript or a loginUrl`);
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Storage state files live outside the workspace: they hold session cookies,
+ * and Playwright empties test-results at the start of every run.
+ */
+export function authStateDir(workspaceRoot: string): string {
+  const workspaceHash = createHash('sha256').update(workspaceRoot).digest('hex').slice(0, 12);
+  return path.join(os.tmpdir(), 'visual-regression-auth', workspaceHash);
+}
+
+export function authStatePath(workspaceRoot: string, role: string): string {
+  return path.join(authStateDir(workspaceRoot), `${role}.json`);
+}
+
+/**
+ * Replaces `${env:NAME}` in step values so passwords can stay in the
+ * environment (or visualRegression.environmentVariables) instead of settings.
+ */
+export function resolveStepValues(steps: ManifestAction[], env: NodeJS.ProcessEnv): ManifestAction[] {
+  return steps.map(step => (step.value === undefined
+    ? step
+    : { ...step, value: step.value.replace(/\$\{env:([^}]+)\}/g, (_, name: string) => env[name] ?? '') }));
+}
+
+/**
+ * Runs a recorded login flow (VISUAL_REGRESSION_LOGIN) with the project's own
+ * Playwright and saves the storage state. Written next to the state files and
+ * run with the project as working directory, so `@playwright/test` resolves
+ * from there.
+ */
+export const RECORDED_LOGIN_SCRIPT = `const { createRequire } = require('node:module');
+const { chromium } = createRequire(process.cwd() + '/')('@playwright/test');
+
+(async () => {
+  const role = JSON.parse(process.env.VISUAL_REGRESSION_LOGIN);
+  const browser = await chromium.launch();
+  try {
+    const page = await browser.newPage({ baseURL: process.env.BASE_URL });
+    await page.goto(role.loginUrl);
+    for (const step of role.steps || []) {
+      if (step.type === 'click') {
+        await page.locator(step.selector).click();
+      } else if (step.type === 'hover') {
+        await page.locator(step.selector).hover();
+      } else if (step.type === 'fill') {
+        await page.locator(step.selector).fill(step.value || '');
+      } else if (step.selector) {
+        await page.locator(step.selector).scrollIntoViewIfNeeded();
+      } else {
+        await page.evaluate(({ x, y }) => window.scrollTo(x, y), { x: step.x || 0, y: step.y || 0 });
+      }
+    }
+    if (role.waitForUrl) {
+      await page.waitForURL(role.waitForUrl);
+    } else {
+      await page.waitForLoadState('networkidle');
+    }
+    await page.context().storageState({ path: process.env.STORAGE_STATE });
+  } finally {
+    await browser.close();
+  }
+})().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
+`;
@@ -0,0 +1,152 @@
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { RunLog } from './runLog';
+
+export interface BaselineCacheKeyParts {
+  /** Resolved commit SHA of the baseline ref */
+  sha: string;
+  testFilesHash: string;
+  urls: string[];
+  env: Record<string, string>;
+  /** How the baseline was served: server mode, static build settings and the baseline server profile */
+  server: Record<string, unknown>;
+}
+
+export interface BaselineCacheEntry {
+  key: string;
+  dir: string;
+  ref: string;
+  sha: string;
+  urls: string[];
+  workspace: string;
+  createdAt: string;
+}
+
+const META_FILE = 'meta.json';
+const MAX_ENTRIES = 20;
+
+/**
+ * Persists captured baseline snapshots outside the workspace so a run can
+ * skip the checkout/server/capture phase when the baseline has not moved.
+ */
+export class BaselineCacheService {
+  private readonly baselinesDir: string;
+
+  constructor(cacheRoot: string) {
+    this.baselinesDir = path.join(cacheRoot, 'baselines');
+  }
+
+  computeKey(parts: BaselineCacheKeyParts): string {
+    const normalized = {
+      sha: parts.sha,
+      testFilesHash: parts.testFilesHash,
+      urls: [...new Set(parts.urls)].sort(),
+      env: Object.keys(parts.env).sort().map(key => [key, parts.env[key]]),
+      server: sortKeys(parts.server),
+    };
+    return createHash('sha256').update(JSON.stringify(normalized)).digest('hex').slice(0, 24);
+  }
+
+  /**
+   * Hashes the spec files (not their snapshots) and the Playwright config,
+   * since either changes what a baseline capture produces.
+   */
+  hashTestFiles(workspaceRoot: string, testPath: string): string {
+    const hash = createHash('sha256');
+    const files: string[] = [];
+
+    const walk = (target: string) => {
+      if (!fs.existsSync(target)) {
+        return;
+      }
+      if (fs.statSync(target).isFile()) {
+        files.push(target);
+        return;
+      }
+      for (const entry of fs.readdirSync(target, { withFileTypes: true })) {
+        if (!entry.name.endsWith('-snapshots')) {
+          walk(path.join(target, entry.name));
+        }
+      }
+    };
+    walk(path.join(workspaceRoot, testPath));
+    walk(path.join(workspaceRoot, 'playwright.config.ts'));
+    walk(path.join(workspaceRoot, 'playwright.config.js'));
+
+    for (const file of files.sort()) {
+      hash.update(path.relative(workspaceRoot, file));
+      hash.update(fs.readFileSync(file));
+    }
+    return hash.digest('hex');
+  }
+
+  lookup(key: string): string | undefined {
+    const dir = path.join(this.baselinesDir, key);
+    return fs.existsSync(path.join(dir, META_FILE)) ? dir : undefined;
+  }
+
+  async store(
+    key: string,
+    snapshotsDir: string,
+    meta: Omit<BaselineCacheEntry, 'key' | 'dir' | 'createdAt'>,
+  ): Promise<void> {
+    const dir = path.join(this.baselinesDir, key);
+    RunLog.get().debug('cache', `Storing baseline ${key} for ${meta.ref} @ ${meta.sha}`);
+    await fs.promises.rm(dir, { recursive: true, force: true });
+    await fs.promises.mkdir(dir, { recursive: true });
+    await fs.promises.cp(snapshotsDir, dir, { recursive: true });
+    await fs.promises.writeFile(
+      path.join(dir, META_FILE),
+      JSON.stringify({ ...meta, createdAt: new Date().toISOString() }, null, 2),
+      'utf8',
+    );
+    await this.prune();
+  }
+
+  list(): BaselineCacheEntry[] {
+    if (!fs.existsSync(this.baselinesDir)) {
+      return [];
+    }
+    const entries: BaselineCacheEntry[] = [];
+    for (const key of fs.readdirSync(this.baselinesDir)) {
+      const dir = path.join(this.baselinesDir, key);
+      try {
+        const meta = JSON.parse(fs.readFileSync(path.join(dir, META_FILE), 'utf8'));
+        entries.push({ ...meta, key, dir });
+      } catch {
+        // Incomplete entry (e.g. interrupted while storing) - ignore
+      }
+    }
+    return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async remove(key: string): Promise<void> {
+    RunLog.get().debug('cache', `Removing baseline ${key}`);
+    await fs.promises.rm(path.join(this.baselinesDir, key), { recursive: true, force: true });
+  }
+
+  async clear(): Promise<void> {
+    RunLog.get().debug('cache', 'Clearing all cached baselines');
+    await fs.promises.rm(this.baselinesDir, { recursive: true, force: true });
+  }
+
+  private async prune(): Promise<void> {
+    for (const entry of this.list().slice(MAX_ENTRIES)) {
+      await this.remove(entry.key);
+    }
+  }
+}
+
+/** Orders object keys recursively, so equal settings always hash the same */
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
@@ -0,0 +1,17 @@
+/**
+ * Thrown when the user cancels a run, so callers can tell a deliberate stop
+ * apart from a failure.
+ */
+export class CancelledError extends Error {
+  constructor(message = 'Visual regression run cancelled') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+/** Called before each step, so a cancelled run stops before starting the next one */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new CancelledError();
+  }
+}
@@ -0,0 +1,83 @@
+import { authStatePath, configuredAuthRoles } from './authRoles';
+import { Settings } from './settings';
+
+export type BrowserName = 'chromium' | 'firefox' | 'webkit';
+export type ColorScheme = 'light' | 'dark';
+
+export interface ViewportSetting {
+  name: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * One combination of test-scoped Playwright options. Browsers are not part
+ * of a cell: Playwright only switches browser per project, so they are
+ * passed separately and become projects in playwright.config.ts.
+ */
+export interface MatrixCell {
+  /** Appended to screenshot names and test titles; empty for the default cell */
+  name: string;
+  use: {
+    viewport?: { width: number; height: number };
+    colorScheme?: ColorScheme;
+    locale?: string;
+    /** Signed-in session of the cell's auth role */
+    storageState?: string;
+  };
+}
+
+export const VIEWPORT_PRESETS: Record<string, ViewportSetting> = {
+  mobile: { name: 'mobile', width: 390, height: 844 },
+  tablet: { name: 'tablet', width: 820, height: 1180 },
+  desktop: { name: 'desktop', width: 1440, height: 900 },
+};
+
+/**
+ * Expands the auth role, viewport, color scheme and locale settings into every
+ * combination. Dimensions left unset contribute nothing to the cell name, so
+ * with no matrix configured screenshot names are unchanged. Without a
+ * workspace root, cells name their role but carry no storage state path.
+ */
+export function buildMatrix(config: Settings, workspaceRoot?: string): MatrixCell[] {
+  const roles = configuredAuthRoles(config);
+  const viewports = config.get<(string | ViewportSetting)[]>('viewports', [])
+    .map(viewport => (typeof viewport === 'string' ? VIEWPORT_PRESETS[viewport] : viewport))
+    .filter((viewport): viewport is ViewportSetting => Boolean(viewport));
+  const colorSchemes = config.get<ColorScheme[]>('colorSchemes', []);
+  const locales = config.get<string[]>('locales', []);
+
+  let cells: MatrixCell[] = [{ name: '', use: {} }];
+  const expand = <T>(values: T[], apply: (cell: MatrixCell, value: T) => MatrixCell) => {
+    if (values.length > 0) {
+      cells = cells.flatMap(cell => values.map(value => apply(cell, value)));
+    }
+  };
+
+  expand(roles, (cell, role) => ({
+    name: joinName(cell.name, role.name),
+    use: workspaceRoot ? { ...cell.use, storageState: authStatePath(workspaceRoot, role.name) } : cell.use,
+  }));
+  expand(viewports, (cell, viewport) => ({
+    name: joinName(cell.name, viewport.name),
+    use: { ...cell.use, viewport: { width: viewport.width, height: viewport.height } },
+  }));
+  expand(colorSchemes, (cell, colorScheme) => ({
+    name: joinName(cell.name, colorScheme),
+    use: { ...cell.use, colorScheme },
+  }));
+  expand(locales, (cell, locale) => ({
+    name: joinName(cell.name, locale),
+    use: { ...cell.use, locale },
+  }));
+  return cells;
+}
+
+export function configuredBrowsers(config: Settings): BrowserName[] {
+  const browsers = config.get<BrowserName[]>('browsers', ['chromium']);
+  return browsers.length > 0 ? browsers : ['chromium'];
+}
+
+function joinName(prefix: string, part: string): string {
+  return prefix ? `${prefix}-${part}` : part;
+}
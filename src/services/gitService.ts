@@ -1,24 +1,63 @@
 import { exec } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
 import { promisify } from 'node:util';
+import { RunLog } from './runLog';
 
 const execAsync = promisify(exec);
 
+// Snapshots and Playwright output are rewritten by every run, so they are not "user changes"
+const RUN_OUTPUT_EXCLUDES = `':(exclude)tests/visual/*.spec.ts-snapshots/*' ':(exclude)test-results' ':(exclude)playwright-report'`;
+
+const PLAYWRIGHT_CONFIG_FILES = ['playwright.config.ts', 'playwright.config.js'];
+
+/**
+ * The spec and Playwright config the run captures with. A checkout-mode
+ * baseline must use the working copy's versions, not the base branch's, so
+ * they are never stashed and are carried across checkouts.
+ */
+export function runTestFiles(testPath: string): string[] {
+  return [testPath, ...PLAYWRIGHT_CONFIG_FILES];
+}
+
+export class StashConflictError extends Error {
+  constructor(
+    readonly stashSha: string,
+    readonly files: string[],
+  ) {
+    super(
+      `Stashed changes could not be re-applied cleanly${files.length > 0 ? ` (${files.join(', ')})` : ''}. ` +
+      `They are kept in the stash list - run "git stash apply ${stashSha}" once resolved.`
+    );
+    this.name = 'StashConflictError';
+  }
+}
+
+function excludes(paths: string[]): string {
+  return paths.map(excluded => `':(exclude)${excluded}'`).join(' ');
+}
+
 export class GitService {
   constructor(private readonly workspaceRoot: string) {}
 
   async getCurrentBranch(): Promise<string> {
-    console.log('[Git] Running: git branch --show-current');
+    RunLog.get().debug('git', 'Running: git branch --show-current');
     const { stdout } = await execAsync('git branch --show-current', {
       cwd: this.workspaceRoot
     });
-    console.log(`[Git] Current branch: ${stdout.trim()}`);
+    RunLog.get().debug('git', `Current branch: ${stdout.trim()}`);
     return stdout.trim();
   }
 
-  async checkout(branch: string): Promise<void> {
+  /**
+   * Force-checks out `branch`. Files under `keepPaths` are put back as they
+   * were afterwards, snapshot folders aside.
+   */
+  async checkout(branch: string, keepPaths: string[] = []): Promise<void> {
     // Clean untracked files that might block checkout (like test-results)
     try {
-      console.log('[Git] Running: git clean -fd test-results/ playwright-report/');
+      RunLog.get().debug('git', 'Running: git clean -fd test-results/ playwright-report/');
       await execAsync('git clean -fd test-results/ playwright-report/', {
         cwd: this.workspaceRoot
       });
@@ -26,33 +65,282 @@ export class GitService {
       // Ignore if directories don't exist
     }
     
-    console.log(`[Git] Running: git checkout -f ${branch}`);
-    await execAsync(`git checkout -f ${branch}`, {
+    const kept = await this.copyAside(keepPaths);
+    try {
+      RunLog.get().debug('git', `Running: git checkout -f ${branch}`);
+      await execAsync(`git checkout -f ${branch}`, {
+        cwd: this.workspaceRoot
+      });
+      RunLog.get().debug('git', `Checked out ${branch}`);
+    } finally {
+      if (kept) {
+        await fs.promises.cp(kept, this.workspaceRoot, { recursive: true });
+        await fs.promises.rm(kept, { recursive: true, force: true });
+      }
+    }
+  }
+
+  /** Copies the paths that exist to a temp directory, keeping their layout */
+  private async copyAside(paths: string[]): Promise<string | undefined> {
+    const existing = paths.filter(relativePath => fs.existsSync(path.join(this.workspaceRoot, relativePath)));
+    if (existing.length === 0) {
+      return undefined;
+    }
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'visual-regression-keep-'));
+    for (const relativePath of existing) {
+      RunLog.get().debug('git', `Keeping ${relativePath} across the checkout`);
+      await fs.promises.cp(path.join(this.workspaceRoot, relativePath), path.join(dir, relativePath), {
+        recursive: true,
+        filter: (src) => !src.endsWith('-snapshots')
+      });
+    }
+    return dir;
+  }
+
+  async resolveRef(ref: string): Promise<string> {
+    RunLog.get().debug('git', `Running: git rev-parse ${ref}^{commit}`);
+    const { stdout } = await execAsync(`git rev-parse "${ref}^{commit}"`, {
+      cwd: this.workspaceRoot
+    });
+    return stdout.trim();
+  }
+
+  async getMergeBase(ref: string): Promise<string> {
+    RunLog.get().debug('git', `Running: git merge-base ${ref} HEAD`);
+    const { stdout } = await execAsync(`git merge-base "${ref}" HEAD`, {
+      cwd: this.workspaceRoot
+    });
+    return stdout.trim();
+  }
+
+  async listBranches(): Promise<string[]> {
+    const { stdout } = await execAsync(
+      'git for-each-ref --sort=-committerdate --format="%(refname:short)" refs/heads refs/remotes',
+      { cwd: this.workspaceRoot }
+    );
+    return stdout.split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0 && !line.endsWith('/HEAD'));
+  }
+
+  async listTags(): Promise<string[]> {
+    const { stdout } = await execAsync(
+      'git for-each-ref --sort=-creatordate --format="%(refname:short)" refs/tags',
+      { cwd: this.workspaceRoot }
+    );
+    return stdout.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+  }
+
+  async listRecentCommits(count: number): Promise<{ sha: string; subject: string; author: string; date: string }[]> {
+    const { stdout } = await execAsync(
+      `git log -n ${count} --format="%H%x09%s%x09%an%x09%ar"`,
+      { cwd: this.workspaceRoot }
+    );
+    return stdout.split('\n')
+      .filter(line => line.trim().length > 0)
+      .map((line) => {
+        const [sha, subject, author, date] = line.split('\t');
+        return { sha, subject, author, date };
+      });
+  }
+
+  /**
+   * Lists files that differ from the point where HEAD forked from the base
+   * ref, including uncommitted and untracked changes in the working copy.
+   */
+  async getChangedFiles(baseRef: string): Promise<string[]> {
+    const mergeBase = await this.getMergeBase(baseRef);
+
+    const { stdout: changed } = await execAsync(`git diff --name-only ${mergeBase}`, {
+      cwd: this.workspaceRoot
+    });
+    const { stdout: untracked } = await execAsync('git ls-files --others --exclude-standard', {
       cwd: this.workspaceRoot
     });
-    console.log(`[Git] Checked out ${branch}`);
+
+    const files = [...changed.split('\n'), ...untracked.split('\n')]
+      .map(file => file.trim())
+      .filter(file => file.length > 0);
+    RunLog.get().debug('git', `${files.length} file(s) changed since ${baseRef}`);
+    return [...new Set(files)];
   }
 
-  async clearSnapshots(): Promise<void> {
+  /**
+   * Which of the given paths differ between a ref and the working copy,
+   * including uncommitted and untracked versions.
+   */
+  async getChangedPaths(ref: string, paths: string[]): Promise<string[]> {
+    const pathspec = paths.map(file => `"${file}"`).join(' ');
+    const { stdout: changed } = await execAsync(`git diff --name-only ${ref} -- ${pathspec}`, {
+      cwd: this.workspaceRoot
+    });
+    const { stdout: untracked } = await execAsync(`git ls-files --others --exclude-standard -- ${pathspec}`, {
+      cwd: this.workspaceRoot
+    });
+    return [...new Set([...changed.split('\n'), ...untracked.split('\n')]
+      .map(file => file.trim())
+      .filter(file => file.length > 0))];
+  }
+
+  async getUncommittedChanges(keepPaths: string[] = []): Promise<string[]> {
+    const { stdout } = await execAsync(
+      `git status --porcelain --untracked-files=all -- . ${RUN_OUTPUT_EXCLUDES} ${excludes(keepPaths)}`,
+      { cwd: this.workspaceRoot }
+    );
+    return stdout.split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => line.slice(3));
+  }
+
+  /**
+   * Stashes uncommitted and untracked changes and returns the stash commit
+   * SHA, which stays valid even if other stashes are pushed meanwhile.
+   * Returns an empty string when git found nothing to stash, so an older
+   * stash is never mistaken for this run's. `keepPaths` stay in the working
+   * copy; pass the same paths to checkout() so they survive it.
+   */
+  async stash(message: string, keepPaths: string[] = []): Promise<string> {
+    const before = await this.latestStash();
+    RunLog.get().debug('git', 'Running: git stash push --include-untracked');
+    await execAsync(`git stash push --include-untracked -m "${message}" -- . ${RUN_OUTPUT_EXCLUDES} ${excludes(keepPaths)}`, {
+      cwd: this.workspaceRoot
+    });
+    const after = await this.latestStash();
+    if (after === before) {
+      RunLog.get().debug('git', 'Nothing was stashed');
+      return '';
+    }
+    RunLog.get().debug('git', `Stashed changes as ${after}`);
+    return after;
+  }
+
+  /** The SHA of stash@{0}, or an empty string when there are no stashes */
+  private async latestStash(): Promise<string> {
     try {
-      console.log('[Git] Clearing existing snapshots');
-      await execAsync('rm -rf tests/visual/*.spec.ts-snapshots', {
+      const { stdout } = await execAsync('git rev-parse --quiet --verify stash@{0}', {
+        cwd: this.workspaceRoot
+      });
+      return stdout.trim();
+    } catch {
+      return '';
+    }
+  }
+
+  /**
+   * Re-applies a stash made by stash(), including what was staged, and drops
+   * it. On conflict the stash is kept and a StashConflictError lists the files.
+   */
+  async unstash(stashSha: string): Promise<void> {
+    RunLog.get().debug('git', `Running: git stash apply --index ${stashSha}`);
+    try {
+      await execAsync(`git stash apply --index ${stashSha}`, {
         cwd: this.workspaceRoot
       });
-      console.log('[Git] Snapshots cleared');
+    } catch (error) {
+      const stderr = String((error as { stderr?: string }).stderr ?? '');
+      const files = stderr.split('\n')
+        .map(line => line.match(/^(.+) already exists, no checkout$/)?.[1] ?? line.match(/^CONFLICT \(.*\): .* in (.+)$/)?.[1])
+        .filter((file): file is string => Boolean(file));
+      const { stdout: unmerged } = await execAsync('git diff --name-only --diff-filter=U', {
+        cwd: this.workspaceRoot
+      }).catch(() => ({ stdout: '' }));
+      files.push(...unmerged.split('\n').map(file => file.trim()).filter(file => file.length > 0));
+      console.error('[Git] Failed to apply stash:', stderr);
+      throw new StashConflictError(stashSha, [...new Set(files)]);
+    }
+
+    const { stdout } = await execAsync('git stash list --format=%H', {
+      cwd: this.workspaceRoot
+    });
+    const index = stdout.split('\n').map(line => line.trim()).indexOf(stashSha);
+    if (index >= 0) {
+      await execAsync(`git stash drop stash@{${index}}`, {
+        cwd: this.workspaceRoot
+      });
+    }
+    RunLog.get().debug('git', `Restored stashed changes from ${stashSha}`);
+  }
+
+  /**
+   * Creates a detached worktree for the given ref so the baseline can be
+   * captured without touching the user's working copy.
+   */
+  async createWorktree(ref: string): Promise<string> {
+    const worktreePath = `/tmp/visual-regression-worktree-${Date.now()}`;
+    RunLog.get().debug('git', `Running: git worktree add --detach ${worktreePath} ${ref}`);
+    await execAsync(`git worktree add --detach "${worktreePath}" ${ref}`, {
+      cwd: this.workspaceRoot
+    });
+    RunLog.get().debug('git', `Created worktree for ${ref} at ${worktreePath}`);
+    return worktreePath;
+  }
+
+  /**
+   * Makes a fresh worktree runnable: links the workspace's node_modules
+   * (unless the baseline needs its own install) and copies the current spec
+   * files and Playwright config so baseline and feature captures use the
+   * same test code.
+   */
+  async prepareWorktree(worktreePath: string, testPath: string, linkNodeModules: boolean = true): Promise<void> {
+    const nodeModules = path.join(this.workspaceRoot, 'node_modules');
+    const worktreeNodeModules = path.join(worktreePath, 'node_modules');
+    if (linkNodeModules && fs.existsSync(nodeModules) && !fs.existsSync(worktreeNodeModules)) {
+      RunLog.get().debug('git', 'Linking node_modules into worktree');
+      await fs.promises.symlink(nodeModules, worktreeNodeModules, 'dir');
+    }
+
+    const source = path.join(this.workspaceRoot, testPath);
+    if (fs.existsSync(source)) {
+      RunLog.get().debug('git', `Copying ${testPath} into worktree`);
+      await fs.promises.cp(source, path.join(worktreePath, testPath), {
+        recursive: true,
+        filter: (src) => !src.endsWith('-snapshots')
+      });
+    }
+
+    for (const configFile of PLAYWRIGHT_CONFIG_FILES) {
+      const configPath = path.join(this.workspaceRoot, configFile);
+      if (fs.existsSync(configPath)) {
+        await fs.promises.copyFile(configPath, path.join(worktreePath, configFile));
+      }
+    }
+  }
+
+  async removeWorktree(worktreePath: string): Promise<void> {
+    try {
+      RunLog.get().debug('git', `Running: git worktree remove --force ${worktreePath}`);
+      await execAsync(`git worktree remove --force "${worktreePath}"`, {
+        cwd: this.workspaceRoot
+      });
+      RunLog.get().debug('git', 'Worktree removed');
+    } catch (error) {
+      // Fall back to deleting the directory and pruning the stale entry
+      console.error('[Git] Failed to remove worktree, pruning instead:', error);
+      await fs.promises.rm(worktreePath, { recursive: true, force: true });
+      await execAsync('git worktree prune', { cwd: this.workspaceRoot }).catch(() => undefined);
+    }
+  }
+
+  async clearSnapshots(root: string = this.workspaceRoot): Promise<void> {
+    try {
+      RunLog.get().debug('git', 'Clearing existing snapshots');
+      await execAsync('rm -rf tests/visual/*.spec.ts-snapshots', {
+        cwd: root
+      });
+      RunLog.get().debug('git', 'Snapshots cleared');
     } catch (error) {
       console.error('[Git] Failed to clear snapshots:', error);
     }
   }
 
-  async saveSnapshotsToTemp(): Promise<string> {
+  async saveSnapshotsToTemp(root: string = this.workspaceRoot): Promise<string> {
     const tmpDir = `/tmp/visual-regression-baseline-${Date.now()}`;
     try {
-      console.log(`[Git] Copying snapshots to ${tmpDir}`);
+      RunLog.get().debug('git', `Copying snapshots to ${tmpDir}`);
       await execAsync(`mkdir -p ${tmpDir} && cp -r tests/visual/*.spec.ts-snapshots ${tmpDir}/ 2>/dev/null || true`, {
-        cwd: this.workspaceRoot
+        cwd: root
       });
-      console.log('[Git] Baseline snapshots saved to temp');
+      RunLog.get().debug('git', 'Baseline snapshots saved to temp');
       return tmpDir;
     } catch (error) {
       console.error('[Git] Failed to save snapshots:', error);
@@ -62,19 +350,36 @@ export class GitService {
 
   async restoreSnapshotsFromTemp(tmpDir: string): Promise<void> {
     try {
-      console.log(`[Git] Restoring snapshots from ${tmpDir}`);
+      RunLog.get().debug('git', `Restoring snapshots from ${tmpDir}`);
       await execAsync(`rm -rf tests/visual/*.spec.ts-snapshots && cp -r ${tmpDir}/*.spec.ts-snapshots tests/visual/ 2>/dev/null || true`, {
         cwd: this.workspaceRoot
       });
-      console.log('[Git] Baseline snapshots restored');
+      RunLog.get().debug('git', 'Baseline snapshots restored');
     } catch (error) {
       console.error('[Git] Failed to restore snapshots:', error);
     }
   }
 
+  /**
+   * Puts the committed snapshots back after a run replaced them with
+   * baseline captures.
+   */
+  async restoreCommittedSnapshots(): Promise<void> {
+    try {
+      RunLog.get().debug('git', 'Restoring committed snapshots');
+      await execAsync(`git checkout HEAD -- 'tests/visual/*.spec.ts-snapshots/*'`, {
+        cwd: this.workspaceRoot
+      });
+      RunLog.get().debug('git', 'Committed snapshots restored');
+    } catch (error) {
+      // No snapshots committed yet
+      console.error('[Git] Failed to restore committed snapshots:', error);
+    }
+  }
+
   async cleanupTemp(tmpDir: string): Promise<void> {
     try {
-      console.log(`[Git] Cleaning up ${tmpDir}`);
+      RunLog.get().debug('git', `Cleaning up ${tmpDir}`);
       await execAsync(`rm -rf ${tmpDir}`, {
         cwd: this.workspaceRoot
       });
@@ -85,13 +390,14 @@ export class GitService {
 
   async stageFiles(path: string): Promise<void> {
     try {
-      console.log(`[Git] Staging files: ${path}`);
-      await execAsync(`git add ${path}`, {
+      RunLog.get().debug('git', `Staging files: ${path}`);
+      await execAsync(`git add "${path}"`, {
         cwd: this.workspaceRoot
       });
-      console.log('[Git] Files staged');
+      RunLog.get().debug('git', 'Files staged');
     } catch (error) {
       console.error('[Git] Failed to stage files:', error);
+      throw new Error(`Could not stage ${path}: ${error instanceof Error ? error.message : error}`);
     }
   }
 }
@@ -0,0 +1,45 @@
+import { Settings } from './settings';
+
+/**
+ * What the template spec does to a page so repeated captures render the
+ * same. Sent as JSON in VISUAL_REGRESSION_STABILIZE; absent keys are skipped.
+ */
+export interface PageStabilization {
+  /** Finish CSS animations and transitions before the screenshot */
+  animations?: boolean;
+  /** Pause videos on their first frame */
+  videos?: boolean;
+  /** Hide the text caret */
+  caret?: boolean;
+  /** Wait for web fonts to load */
+  fonts?: boolean;
+  /** Fixed Date.now for the page clock, as an ISO date */
+  time?: string;
+  /** Browser timezone, e.g. UTC */
+  timezone?: string;
+  /** Seed for the generator that replaces Math.random */
+  randomSeed?: number;
+}
+
+const DEFAULT_STABILIZATION: PageStabilization = {
+  animations: true,
+  videos: true,
+  caret: true,
+  fonts: true,
+  time: '2024-01-01T12:00:00Z',
+  timezone: 'UTC',
+  randomSeed: 1,
+};
+
+/** Returns undefined unless visualRegression.stabilizePage is on */
+export function resolvePageStabilization(config: Settings): PageStabilization | undefined {
+  if (!config.get<boolean>('stabilizePage', false)) {
+    return undefined;
+  }
+
+  // Individual steps are turned off with false, null or an empty string
+  const settings = { ...DEFAULT_STABILIZATION, ...config.get<PageStabilization>('stabilization', {}) };
+  return Object.fromEntries(
+    Object.entries(settings).filter(([, value]) => value !== false && value !== null && value !== ''),
+  );
+}
@@ -0,0 +1,187 @@
+import * as fs from 'node:fs';
+
+export type SnapshotStatus = 'passed' | 'changed' | 'missing' | 'failed' | 'skipped';
+
+export interface SnapshotOutcome {
+  /** Screenshot name without extension, e.g. `about` */
+  name: string;
+  projectName: string;
+  status: SnapshotStatus;
+  diffPixels?: number;
+  diffRatio?: number;
+  expected?: string;
+  actual?: string;
+  diff?: string;
+}
+
+export interface UrlOutcome {
+  url: string;
+  urlPath: string;
+  projectName: string;
+  /** Matrix cell from the test title (viewport/color scheme/locale), empty by default */
+  cell: string;
+  status: SnapshotStatus;
+  duration: number;
+  snapshots: SnapshotOutcome[];
+  error?: string;
+}
+
+export interface RunResults {
+  urls: UrlOutcome[];
+  passed: number;
+  changed: number;
+  failed: number;
+}
+
+// Subset of Playwright's JSON reporter output that we rely on
+interface JsonAttachment {
+  name: string;
+  path?: string;
+}
+
+interface JsonTestResult {
+  status: string;
+  duration: number;
+  errors?: { message?: string }[];
+  attachments?: JsonAttachment[];
+}
+
+interface JsonTest {
+  projectName: string;
+  status: string;
+  results: JsonTestResult[];
+}
+
+interface JsonSpec {
+  title: string;
+  tests: JsonTest[];
+}
+
+interface JsonSuite {
+  title: string;
+  specs?: JsonSpec[];
+  suites?: JsonSuite[];
+}
+
+interface JsonReport {
+  suites?: JsonSuite[];
+}
+
+const ATTACHMENT_SUFFIXES = ['expected', 'actual', 'diff'] as const;
+const DIFF_PIXELS_PATTERN = /(\d+) pixels \(ratio ([\d.]+) of all image pixels\) are different/;
+
+export function readPlaywrightResults(file: string): RunResults | undefined {
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  try {
+    return parsePlaywrightReport(JSON.parse(fs.readFileSync(file, 'utf8')));
+  } catch (error) {
+    console.error('[Playwright] Failed to parse JSON results:', error);
+    return undefined;
+  }
+}
+
+export function parsePlaywrightReport(report: JsonReport): RunResults {
+  const urls: UrlOutcome[] = [];
+
+  const visit = (suite: JsonSuite) => {
+    for (const spec of suite.specs ?? []) {
+      for (const test of spec.tests) {
+        urls.push(toUrlOutcome(spec.title, test));
+      }
+    }
+    suite.suites?.forEach(visit);
+  };
+  report.suites?.forEach(visit);
+
+  return {
+    urls,
+    passed: urls.filter(u => u.status === 'passed').length,
+    changed: urls.filter(u => u.status === 'changed' || u.status === 'missing').length,
+    failed: urls.filter(u => u.status === 'failed').length,
+  };
+}
+
+function toUrlOutcome(title: string, test: JsonTest): UrlOutcome {
+  const url = title.match(/https?:\/\/\S+/)?.[0] ?? title;
+  const urlPath = url.startsWith('http') ? pathOf(url) : url;
+  const cell = title.match(/ \[([^\]]+)\]$/)?.[1] ?? '';
+  // The last attempt is the one that decides the outcome when retries are on
+  const result = test.results[test.results.length - 1];
+  const messages = (result?.errors ?? []).map(e => stripAnsi(e.message ?? ''));
+  const snapshots = collectSnapshots(result?.attachments ?? [], messages, test.projectName);
+
+  let status: SnapshotStatus;
+  if (test.status === 'skipped') {
+    status = 'skipped';
+  } else if (test.status === 'expected' || test.status === 'flaky') {
+    status = 'passed';
+  } else if (snapshots.some(s => s.status === 'changed')) {
+    status = 'changed';
+  } else if (snapshots.some(s => s.status === 'missing')) {
+    status = 'missing';
+  } else {
+    status = 'failed';
+  }
+
+  return {
+    url,
+    urlPath,
+    projectName: test.projectName,
+    cell,
+    status,
+    duration: result?.duration ?? 0,
+    snapshots,
+    error: status === 'passed' ? undefined : messages.join('\n\n') || undefined,
+  };
+}
+
+function collectSnapshots(
+  attachments: JsonAttachment[],
+  messages: string[],
+  projectName: string,
+): SnapshotOutcome[] {
+  const byName = new Map<string, SnapshotOutcome>();
+
+  for (const attachment of attachments) {
+    for (const suffix of ATTACHMENT_SUFFIXES) {
+      const ending = `-${suffix}.png`;
+      if (attachment.path && attachment.name.endsWith(ending)) {
+        const name = attachment.name.slice(0, -ending.length);
+        const snapshot = byName.get(name) ?? { name, projectName, status: 'changed' };
+        snapshot[suffix] = attachment.path;
+        byName.set(name, snapshot);
+      }
+    }
+  }
+
+  const snapshots = [...byName.values()];
+  for (const snapshot of snapshots) {
+    // Prefer the error that names this screenshot, fall back to the only one
+    const message = messages.find(m => m.includes(`${snapshot.name}.png`))
+      ?? (snapshots.length === 1 ? messages[0] : undefined);
+    const match = message?.match(DIFF_PIXELS_PATTERN);
+    if (match) {
+      snapshot.diffPixels = Number(match[1]);
+      snapshot.diffRatio = Number(match[2]);
+    }
+    if (!snapshot.expected && !snapshot.diff) {
+      snapshot.status = 'missing';
+    }
+  }
+  return snapshots;
+}
+
+function pathOf(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.pathname + parsed.search;
+  } catch {
+    return url;
+  }
+}
+
+function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*m/g, '');
+}
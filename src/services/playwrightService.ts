@@ -1,55 +1,99 @@
-import { exec } from 'node:child_process';
-import { promisify } from 'node:util';
-import * as vscode from 'vscode';
+import { spawn } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { authStateDir, authStatePath, configuredAuthRoles, RECORDED_LOGIN_SCRIPT, resolveStepValues } from './authRoles';
+import { buildMatrix, configuredBrowsers } from './captureMatrix';
+import { CancelledError, throwIfCancelled } from './cancellation';
+import { killProcessGroup } from './processGroup';
+import { resolvePageStabilization } from './pageStabilization';
+import { RunLog } from './runLog';
+import { readRouteManifest } from './routeManifest';
+import { resolveRouteOptions } from './routeOptions';
+import { readPlaywrightResults, RunResults } from './playwrightResults';
+import { getSettings } from './settings';
 
-const execAsync = promisify(exec);
+/** Where the JSON reporter writes, relative to the workspace root */
+export const JSON_RESULTS_PATH = 'test-results/visual-regression-results.json';
 
 export interface TestResult {
   success: boolean;
   output: string;
+  /** Parsed per-URL outcomes, when the JSON reporter produced a file */
+  results?: RunResults;
+}
+
+/**
+ * Where the template spec records (baseline) or replays (feature) network
+ * traffic, one HAR per page and matrix cell.
+ */
+export interface NetworkReplay {
+  mode: 'record' | 'replay';
+  dir: string;
+}
+
+export interface SnapshotArtifacts {
+  expected?: string;
+  actual?: string;
+  diff?: string;
+}
+
+/**
+ * Mirrors the screenshot filename the template spec derives from a URL path
+ * and matrix cell.
+ */
+export function snapshotNameForUrl(urlPath: string, cell: string = ''): string {
+  const pathname = new URL(urlPath, 'http://localhost').pathname;
+  const name = pathname
+    .replace(/^\//, '')
+    .replace(/\//g, '-')
+    .replace(/[^a-zA-Z0-9-_]/g, '_')
+    || 'homepage';
+  return cell ? `${name}-${cell}` : name;
 }
 
 export class PlaywrightService {
   constructor(private readonly workspaceRoot: string) {}
 
   async updateSnapshots(urlPath: string, port: number): Promise<void> {
-    const config = vscode.workspace.getConfiguration('visualRegression');
+    const config = getSettings();
     const testPath = config.get<string>('testPath', 'tests/visual/pages.spec.ts');
     const customEnvVars = config.get<Record<string, string>>('environmentVariables', {});
     
     const url = `http://localhost:${port}${urlPath}`;
     const cmd = `npx playwright test ${testPath} --update-snapshots`;
     
-    console.log(`[Playwright] Running: ${cmd}`);
-    console.log(`[Playwright] TEST_URL=${url}`);
+    RunLog.get().debug('playwright', `Running: ${cmd}`);
+    RunLog.get().debug('playwright', `TEST_URL=${url}`);
     
-    // Log custom environment variables (except sensitive ones)
-    for (const key of Object.keys(customEnvVars)) {
-      console.log(`[Playwright] ${key}=${customEnvVars[key]}`);
-    }
+    // Names only - values are often credentials and the log is visible
+    RunLog.get().debug('playwright', `Environment variables: ${Object.keys(customEnvVars).join(', ') || 'none'}`);
     
     const env = { 
       ...process.env, 
       TEST_URL: url,
+      ...this.specEnv([urlPath]),
       ...customEnvVars
     };
     
     try {
-      await execAsync(cmd, {
-        cwd: this.workspaceRoot,
-        env
-      });
-      console.log('[Playwright] Baseline snapshots created');
+      await this.execPlaywright(cmd, this.workspaceRoot, env);
+      RunLog.get().debug('playwright', 'Baseline snapshots created');
     } catch (error: any) {
-      console.log('[Playwright] ❌ Command failed');
-      if (error.stdout) console.log('[Playwright stdout]', error.stdout);
-      if (error.stderr) console.log('[Playwright stderr]', error.stderr);
+      RunLog.get().debug('playwright', '❌ Command failed');
+      if (error.stdout) RunLog.get().debug('playwright', `stdout: ${error.stdout}`);
+      if (error.stderr) RunLog.get().debug('playwright', `stderr: ${error.stderr}`);
       throw new Error(`Playwright test failed: ${error.message}\n${error.stderr || error.stdout || ''}`);
     }
   }
 
-  async updateAllSnapshots(urlPaths: string[], port: number): Promise<void> {
-    const config = vscode.workspace.getConfiguration('visualRegression');
+  async updateAllSnapshots(
+    urlPaths: string[],
+    port: number,
+    cwd: string = this.workspaceRoot,
+    signal?: AbortSignal,
+    networkReplay?: NetworkReplay
+  ): Promise<void> {
+    const config = getSettings();
     const testPath = config.get<string>('testPath', 'tests/visual/pages.spec.ts');
     const customEnvVars = config.get<Record<string, string>>('environmentVariables', {});
     
@@ -57,123 +101,357 @@ export class PlaywrightService {
     const testUrls = urlPaths.map(path => `http://localhost:${port}${path}`).join(',');
     const cmd = `npx playwright test ${testPath} --update-snapshots`;
     
-    console.log(`[Playwright] Running: ${cmd}`);
-    console.log(`[Playwright] TEST_URLS=${testUrls}`);
+    RunLog.get().debug('playwright', `Running: ${cmd}`);
+    RunLog.get().debug('playwright', `TEST_URLS=${testUrls}`);
     
-    // Log custom environment variables (except sensitive ones)
-    for (const key of Object.keys(customEnvVars)) {
-      console.log(`[Playwright] ${key}=${customEnvVars[key]}`);
-    }
+    // Names only - values are often credentials and the log is visible
+    RunLog.get().debug('playwright', `Environment variables: ${Object.keys(customEnvVars).join(', ') || 'none'}`);
     
     const env = { 
       ...process.env, 
       TEST_URLS: testUrls,
+      ...this.specEnv(urlPaths),
+      ...this.networkReplayEnv(networkReplay),
       ...customEnvVars
     };
     
     try {
-      await execAsync(cmd, {
-        cwd: this.workspaceRoot,
-        env
-      });
-      console.log('[Playwright] Baseline snapshots created for all URLs');
+      await this.execPlaywright(cmd, cwd, env, signal);
+      RunLog.get().debug('playwright', 'Baseline snapshots created for all URLs');
     } catch (error: any) {
-      console.log('[Playwright] ❌ Command failed');
-      if (error.stdout) console.log('[Playwright stdout]', error.stdout);
-      if (error.stderr) console.log('[Playwright stderr]', error.stderr);
+      if (error instanceof CancelledError) {
+        throw error;
+      }
+      RunLog.get().debug('playwright', '❌ Command failed');
+      if (error.stdout) RunLog.get().debug('playwright', `stdout: ${error.stdout}`);
+      if (error.stderr) RunLog.get().debug('playwright', `stderr: ${error.stderr}`);
       throw new Error(`Playwright test failed: ${error.message}\n${error.stderr || error.stdout || ''}`);
     }
   }
 
   async runTests(urlPath: string, port: number): Promise<TestResult> {
-    const config = vscode.workspace.getConfiguration('visualRegression');
+    const config = getSettings();
     const testPath = config.get<string>('testPath', 'tests/visual/pages.spec.ts');
     const customEnvVars = config.get<Record<string, string>>('environmentVariables', {});
     
     const url = `http://localhost:${port}${urlPath}`;
-    const cmd = `npx playwright test ${testPath} --reporter=html`;
+    const cmd = `npx playwright test ${testPath} --reporter=list,html,json`;
     
-    console.log(`[Playwright] Running: ${cmd}`);
-    console.log(`[Playwright] TEST_URL=${url}`);
+    RunLog.get().debug('playwright', `Running: ${cmd}`);
+    RunLog.get().debug('playwright', `TEST_URL=${url}`);
     
-    // Log custom environment variables (except sensitive ones)
-    for (const key of Object.keys(customEnvVars)) {
-      console.log(`[Playwright] ${key}=${customEnvVars[key]}`);
-    }
+    // Names only - values are often credentials and the log is visible
+    RunLog.get().debug('playwright', `Environment variables: ${Object.keys(customEnvVars).join(', ') || 'none'}`);
     
     const env = { 
       ...process.env, 
       TEST_URL: url,
+      ...this.specEnv([urlPath]),
+      ...this.reporterEnv(),
       ...customEnvVars
     };
     
+    this.clearResults();
     try {
-      const { stdout, stderr } = await execAsync(cmd, {
-        cwd: this.workspaceRoot,
-        env
-      });
+      const { stdout, stderr } = await this.execPlaywright(cmd, this.workspaceRoot, env);
       
-      console.log('[Playwright] Tests passed ✅');
+      const results = this.readResults();
+      if (!results) {
+        return this.missingResults(stdout + stderr);
+      }
+      RunLog.get().debug('playwright', 'Tests passed ✅');
       return {
         success: true,
-        output: stdout + stderr
+        output: stdout + stderr,
+        results
       };
     } catch (error: any) {
-      console.log('[Playwright] Tests failed ❌');
-      console.log('[Playwright] HTML report generated at playwright-report/');
+      RunLog.get().debug('playwright', 'Tests failed ❌');
+      RunLog.get().debug('playwright', 'HTML report generated at playwright-report/');
       return {
         success: false,
-        output: error.stdout + error.stderr
+        output: error.stdout + error.stderr,
+        results: this.readResults()
       };
     }
   }
 
-  async runAllTests(urlPaths: string[], port: number): Promise<TestResult> {
-    const config = vscode.workspace.getConfiguration('visualRegression');
+  async runAllTests(
+    urlPaths: string[],
+    port: number,
+    signal?: AbortSignal,
+    networkReplay?: NetworkReplay
+  ): Promise<TestResult> {
+    const config = getSettings();
     const testPath = config.get<string>('testPath', 'tests/visual/pages.spec.ts');
     const customEnvVars = config.get<Record<string, string>>('environmentVariables', {});
     
     // Run all URLs in a single test execution so the report includes all results
-    const cmd = `npx playwright test ${testPath} --reporter=html`;
+    const cmd = `npx playwright test ${testPath} --reporter=list,html,json`;
     
-    console.log(`[Playwright] Running tests for ${urlPaths.length} URL(s): ${cmd}`);
+    RunLog.get().debug('playwright', `Running tests for ${urlPaths.length} URL(s): ${cmd}`);
     
     // Create TEST_URLS as comma-separated list for the test to parse
     const testUrls = urlPaths.map(path => `http://localhost:${port}${path}`).join(',');
-    console.log(`[Playwright] TEST_URLS=${testUrls}`);
+    RunLog.get().debug('playwright', `TEST_URLS=${testUrls}`);
     
-    // Log custom environment variables (except sensitive ones)
-    for (const key of Object.keys(customEnvVars)) {
-      console.log(`[Playwright] ${key}=${customEnvVars[key]}`);
-    }
+    // Names only - values are often credentials and the log is visible
+    RunLog.get().debug('playwright', `Environment variables: ${Object.keys(customEnvVars).join(', ') || 'none'}`);
     
     const env = { 
       ...process.env, 
       TEST_URLS: testUrls, // Multiple URLs
+      ...this.specEnv(urlPaths),
+      ...this.networkReplayEnv(networkReplay),
+      ...this.reporterEnv(),
       ...customEnvVars
     };
     
+    this.clearResults();
     try {
-      const { stdout, stderr } = await execAsync(cmd, {
-        cwd: this.workspaceRoot,
-        env
-      });
+      const { stdout, stderr } = await this.execPlaywright(cmd, this.workspaceRoot, env, signal);
       
-      console.log('[Playwright] All tests passed ✅');
+      const results = this.readResults();
+      if (!results) {
+        return this.missingResults(stdout + stderr);
+      }
+      RunLog.get().debug('playwright', 'All tests passed ✅');
       return {
         success: true,
-        output: stdout + stderr
+        output: stdout + stderr,
+        results
       };
     } catch (error: any) {
-      console.log('[Playwright] Some tests failed ❌');
-      console.log('[Playwright] HTML report generated at playwright-report/');
+      if (error instanceof CancelledError) {
+        throw error;
+      }
+      RunLog.get().debug('playwright', 'Some tests failed ❌');
+      RunLog.get().debug('playwright', 'HTML report generated at playwright-report/');
       return {
         success: false,
-        output: error.stdout + error.stderr
+        output: error.stdout + error.stderr,
+        results: this.readResults()
       };
     }
   }
 
+  /**
+   * Logs in every configured auth role against the server on `port` and
+   * saves each role's storage state for the spec to reuse. Runs once per
+   * server, so baseline and feature each get a session from their own backend.
+   */
+  async captureAuthStates(port: number, cwd: string = this.workspaceRoot, signal?: AbortSignal): Promise<void> {
+    const config = getSettings();
+    const roles = configuredAuthRoles(config);
+    const customEnvVars = config.get<Record<string, string>>('environmentVariables', {});
+    const stateDir = authStateDir(this.workspaceRoot);
+    fs.mkdirSync(stateDir, { recursive: true });
+
+    const loginScript = path.join(stateDir, 'login.cjs');
+    fs.writeFileSync(loginScript, RECORDED_LOGIN_SCRIPT);
+
+    for (const role of roles) {
+      const statePath = authStatePath(this.workspaceRoot, role.name);
+      fs.rmSync(statePath, { force: true });
+
+      let cmd = `node "${loginScript}"`;
+      if (role.setupScript) {
+        // Prefer the script in the checkout being captured, as it may differ between refs
+        const script = [cwd, this.workspaceRoot]
+          .map(root => path.resolve(root, role.setupScript!))
+          .find(candidate => fs.existsSync(candidate));
+        if (!script) {
+          throw new Error(`Login setup script for role "${role.name}" not found: ${role.setupScript}`);
+        }
+        cmd = `node "${script}"`;
+      }
+
+      RunLog.get().debug('auth', `Logging in as ${role.name}: ${cmd}`);
+      const env = {
+        ...process.env,
+        ...customEnvVars,
+        BASE_URL: `http://localhost:${port}`,
+        STORAGE_STATE: statePath,
+        VISUAL_REGRESSION_ROLE: role.name
+      };
+      const login = JSON.stringify({ ...role, steps: resolveStepValues(role.steps ?? [], env) });
+
+      try {
+        await this.execPlaywright(cmd, cwd, { ...env, VISUAL_REGRESSION_LOGIN: login }, signal, `login ${role.name}`);
+      } catch (error: any) {
+        if (error instanceof CancelledError) {
+          throw error;
+        }
+        if (error.stderr) RunLog.get().debug('auth', `stderr: ${error.stderr}`);
+        throw new Error(`Login as "${role.name}" failed: ${error.message}\n${error.stderr || error.stdout || ''}`);
+      }
+      if (!fs.existsSync(statePath)) {
+        throw new Error(`Login as "${role.name}" finished without saving storage state to STORAGE_STATE`);
+      }
+    }
+  }
+
+  /** Session cookies should not outlive the run */
+  clearAuthStates(): void {
+    fs.rmSync(authStateDir(this.workspaceRoot), { recursive: true, force: true });
+  }
+
+  /**
+   * Runs a Playwright command in its own process group so cancelling kills
+   * the browsers it launched too, streaming its output to the log channel.
+   * Rejects like `exec` (with stdout/stderr on the error) on a non-zero
+   * exit, or with CancelledError on abort.
+   */
+  private execPlaywright(
+    cmd: string,
+    cwd: string,
+    env: NodeJS.ProcessEnv,
+    signal?: AbortSignal,
+    source: string = 'playwright'
+  ): Promise<{ stdout: string; stderr: string }> {
+    return new Promise((resolve, reject) => {
+      throwIfCancelled(signal);
+
+      const runLog = RunLog.get();
+      runLog.info(source, `$ ${cmd} (in ${cwd})`);
+      runLog.debug(source, `TEST_URLS=${env.TEST_URLS ?? env.TEST_URL ?? ''}`);
+      const stdoutLines = runLog.lineWriter(source);
+      const stderrLines = runLog.lineWriter(source, 'warn');
+
+      const child = spawn(cmd, { cwd, env, shell: true, detached: true });
+      let stdout = '';
+      let stderr = '';
+      child.stdout?.on('data', (data: Buffer) => {
+        stdout += data.toString();
+        stdoutLines.write(data);
+      });
+      child.stderr?.on('data', (data: Buffer) => {
+        stderr += data.toString();
+        stderrLines.write(data);
+      });
+
+      const onAbort = () => {
+        RunLog.get().debug('playwright', 'Cancelling running command');
+        if (!child.pid || !killProcessGroup(child.pid)) {
+          child.kill('SIGTERM');
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      child.on('error', (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      });
+      child.on('close', (code) => {
+        signal?.removeEventListener('abort', onAbort);
+        stdoutLines.end();
+        stderrLines.end();
+        if (signal?.aborted) {
+          reject(new CancelledError());
+        } else if (code === 0) {
+          resolve({ stdout, stderr });
+        } else {
+          reject(Object.assign(new Error(`Command failed: ${cmd}`), { code, stdout, stderr }));
+        }
+      });
+    });
+  }
+
+  /**
+   * Options the template spec and generated config read from the
+   * environment, identical for baseline and feature runs.
+   */
+  specEnv(urlPaths: string[]): Record<string, string> {
+    const config = getSettings();
+    const stabilization = resolvePageStabilization(config);
+    return {
+      VISUAL_REGRESSION_MATRIX: JSON.stringify(buildMatrix(config, this.workspaceRoot)),
+      VISUAL_REGRESSION_BROWSERS: configuredBrowsers(config).join(','),
+      // The workspace manifest applies to the baseline too, so both sides capture the same states
+      VISUAL_REGRESSION_ROUTES: JSON.stringify(
+        resolveRouteOptions(config, urlPaths, readRouteManifest(this.workspaceRoot)?.routes)
+      ),
+      // Part of the baseline cache key, so a baseline captured without a recording is not reused
+      ...(config.get<boolean>('networkReplay', false)
+        ? { VISUAL_REGRESSION_HAR_URL: config.get<string>('networkReplayUrl', '**/api/**') }
+        : {}),
+      ...(stabilization ? { VISUAL_REGRESSION_STABILIZE: JSON.stringify(stabilization) } : {})
+    };
+  }
+
+  private networkReplayEnv(networkReplay?: NetworkReplay): Record<string, string> {
+    if (!networkReplay) {
+      return {};
+    }
+    RunLog.get().debug('playwright', `Network ${networkReplay.mode === 'record' ? 'recording to' : 'replaying from'} ${networkReplay.dir}`);
+    return {
+      VISUAL_REGRESSION_HAR_MODE: networkReplay.mode,
+      VISUAL_REGRESSION_HAR_DIR: networkReplay.dir
+    };
+  }
+
+  private reporterEnv(): Record<string, string> {
+    return {
+      PLAYWRIGHT_JSON_OUTPUT_NAME: path.join(this.workspaceRoot, JSON_RESULTS_PATH),
+      // Never let the HTML reporter start its own server and block the run
+      PW_TEST_HTML_REPORT_OPEN: 'never'
+    };
+  }
+
+  /** A results file left by an earlier run would otherwise be read as this run's outcome */
+  private clearResults(): void {
+    fs.rmSync(path.join(this.workspaceRoot, JSON_RESULTS_PATH), { force: true });
+  }
+
+  /** Playwright exited cleanly but never reported, e.g. because no spec ran */
+  private missingResults(output: string): TestResult {
+    RunLog.get().debug('playwright', `No results written to ${JSON_RESULTS_PATH} ❌`);
+    return {
+      success: false,
+      output: `${output}\nPlaywright did not write ${JSON_RESULTS_PATH}, so the run is treated as failed`,
+      results: undefined
+    };
+  }
+
+  private readResults(): RunResults | undefined {
+    const results = readPlaywrightResults(path.join(this.workspaceRoot, JSON_RESULTS_PATH));
+    if (results) {
+      RunLog.get().debug('playwright', `Parsed results: ${results.passed} passed, ${results.changed} changed, ${results.failed} failed`);
+    }
+    return results;
+  }
+
+  /**
+   * Looks up the expected/actual/diff images Playwright left in test-results
+   * for a URL's screenshot. Only failed comparisons produce these files.
+   */
+  findSnapshotArtifacts(urlPath: string, cell: string = ''): SnapshotArtifacts {
+    const name = snapshotNameForUrl(urlPath, cell);
+    const artifacts: SnapshotArtifacts = {};
+    const suffixes: Record<string, keyof SnapshotArtifacts> = {
+      [`${name}-expected.png`]: 'expected',
+      [`${name}-actual.png`]: 'actual',
+      [`${name}-diff.png`]: 'diff'
+    };
+
+    const walk = (dir: string) => {
+      if (!fs.existsSync(dir)) {
+        return;
+      }
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          walk(entryPath);
+        } else if (suffixes[entry.name]) {
+          artifacts[suffixes[entry.name]] = entryPath;
+        }
+      }
+    };
+
+    walk(path.join(this.workspaceRoot, 'test-results'));
+    return artifacts;
+  }
+
   private escapeRegex(str: string): string {
     return str.replaceAll(/[.*+?^${}()|[\]\\]/g, String.raw`\$&`);
   }
@@ -0,0 +1,13 @@
+/**
+ * Signals every process in the group led by `pid`. Commands are spawned
+ * detached, so this reaches the shell, the command and whatever it started.
+ * Returns false when the group is no longer running; signal 0 only checks.
+ */
+export function killProcessGroup(pid: number, signal: NodeJS.Signals | 0 = 'SIGTERM'): boolean {
+  try {
+    process.kill(-pid, signal);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,352 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { ManifestRoute } from './routeManifest';
+
+export type RouteSource = 'next-app' | 'next-pages' | 'sveltekit' | 'remix' | 'config' | 'manifest';
+
+export interface DiscoveredRoute {
+  /** URL path with dynamic segments filled in, e.g. `/blog/hello-world` */
+  path: string;
+  /** Route pattern as written in the file system, e.g. `/blog/[slug]` */
+  pattern: string;
+  source: RouteSource;
+  /** File that defines the route, relative to the workspace root */
+  file?: string;
+  /** Display name from visual-regression.json */
+  name?: string;
+}
+
+export interface RouteDiscoveryResult {
+  routes: DiscoveredRoute[];
+  /** Patterns skipped because a dynamic segment has no example value */
+  unresolved: string[];
+}
+
+export interface AffectedRoutes {
+  /** Route paths that need testing */
+  routes: string[];
+  /** Route path → changed files that caused it to be included */
+  reasons: Map<string, string[]>;
+  /** Changed files that did not map to any route */
+  unmatched: string[];
+}
+
+/** Changed files matching these globs affect every route unless configured otherwise */
+export const ALL_ROUTES = '*';
+
+const PAGE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.mdx'];
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', '.next', '.svelte-kit', 'build', 'dist']);
+
+interface RoutePattern {
+  segments: string[];
+  source: RouteSource;
+  file: string;
+}
+
+export class RouteDiscoveryService {
+  constructor(private readonly workspaceRoot: string) {}
+
+  /**
+   * Scans the file-based routers we know about and merges the result with
+   * the statically configured paths and manifest routes. Dynamic segments are
+   * replaced with the example values from `routeParams`.
+   */
+  discover(
+    staticPaths: string[],
+    routeParams: Record<string, string>,
+    manifestRoutes: ManifestRoute[] = [],
+  ): RouteDiscoveryResult {
+    const patterns = [
+      ...this.scanNextAppRouter('app'),
+      ...this.scanNextAppRouter('src/app'),
+      ...this.scanNextPagesRouter('pages'),
+      ...this.scanNextPagesRouter('src/pages'),
+      ...this.scanSvelteKitRoutes('src/routes'),
+      ...this.scanRemixRoutes('app/routes'),
+    ];
+
+    const routes = new Map<string, DiscoveredRoute>();
+    const unresolved: string[] = [];
+
+    for (const route of manifestRoutes) {
+      routes.set(route.path, { path: route.path, pattern: route.path, source: 'manifest', name: route.name });
+    }
+    for (const staticPath of staticPaths) {
+      if (!routes.has(staticPath)) {
+        routes.set(staticPath, { path: staticPath, pattern: staticPath, source: 'config' });
+      }
+    }
+
+    for (const pattern of patterns) {
+      const patternPath = toPath(pattern.segments);
+      const resolved = resolveSegments(pattern.segments, routeParams);
+      if (resolved === undefined) {
+        unresolved.push(patternPath);
+        continue;
+      }
+      const routePath = toPath(resolved);
+      const existing = routes.get(routePath);
+      if (!existing) {
+        routes.set(routePath, {
+          path: routePath,
+          pattern: patternPath,
+          source: pattern.source,
+          file: pattern.file,
+        });
+      } else if (!existing.file) {
+        // A configured path is still defined by its page file, which changed-file mapping relies on.
+        // Manifest routes keep their source so they stay labelled and preselected as such
+        existing.file = pattern.file;
+        existing.pattern = patternPath;
+        if (existing.source === 'config') {
+          existing.source = pattern.source;
+        }
+      }
+    }
+
+    return {
+      routes: [...routes.values()].sort((a, b) => a.path.localeCompare(b.path)),
+      unresolved: [...new Set(unresolved)],
+    };
+  }
+
+  /**
+   * Maps changed files to the routes they can affect. A route's own file
+   * affects just that route; other files in a directory-based router (layouts,
+   * colocated components, styles) affect every route at or below their
+   * directory. `mappings` adds glob → routes rules, where `*` means all routes.
+   */
+  affectedRoutes(
+    changedFiles: string[],
+    routes: DiscoveredRoute[],
+    mappings: Record<string, string | string[]>,
+  ): AffectedRoutes {
+    const reasons = new Map<string, string[]>();
+    const unmatched: string[] = [];
+    const allRoutes = routes.map(route => route.path);
+    const globs = Object.entries(mappings).map(([glob, target]) => ({
+      pattern: globToRegExp(glob),
+      routes: target === ALL_ROUTES ? allRoutes : ([] as string[]).concat(target),
+    }));
+
+    const addReason = (routePath: string, file: string) => {
+      const files = reasons.get(routePath) ?? [];
+      if (!files.includes(file)) {
+        files.push(file);
+      }
+      reasons.set(routePath, files);
+    };
+
+    for (const file of changedFiles) {
+      const owners = this.findOwningRoutes(file, routes);
+      for (const glob of globs) {
+        if (glob.pattern.test(file)) {
+          owners.push(...glob.routes);
+        }
+      }
+      if (owners.length === 0) {
+        unmatched.push(file);
+      }
+      for (const routePath of owners) {
+        addReason(routePath, file);
+      }
+    }
+
+    return {
+      routes: [...reasons.keys()].sort((a, b) => a.localeCompare(b)),
+      reasons,
+      unmatched,
+    };
+  }
+
+  private findOwningRoutes(file: string, routes: DiscoveredRoute[]): string[] {
+    const exact = routes.filter(route => route.file === file);
+    if (exact.length > 0) {
+      return exact.map(route => route.path);
+    }
+
+    // A page file only ever affects its own route, even one without an example value
+    const fileName = path.posix.basename(file);
+    if (isPageFile(fileName, 'page') || (fileName.startsWith('+page.') && !fileName.includes('.server.'))) {
+      return [];
+    }
+
+    const fileDir = path.posix.dirname(file);
+    return routes
+      .filter(route => route.file && (route.source === 'next-app' || route.source === 'sveltekit'))
+      .filter((route) => {
+        const routeDir = path.posix.dirname(route.file!);
+        return routeDir === fileDir || routeDir.startsWith(`${fileDir}/`);
+      })
+      .map(route => route.path);
+  }
+
+  private scanNextAppRouter(dir: string): RoutePattern[] {
+    const patterns: RoutePattern[] = [];
+    const walk = (relativeDir: string, segments: string[]) => {
+      for (const entry of this.readDir(relativeDir)) {
+        const entryPath = path.posix.join(relativeDir, entry.name);
+        if (entry.isDirectory()) {
+          // Private folders, parallel routes and intercepting routes don't add URLs
+          if (entry.name.startsWith('_') || entry.name.startsWith('@') || entry.name.startsWith('(.')) {
+            continue;
+          }
+          // Route groups are omitted from the URL
+          const isGroup = entry.name.startsWith('(') && entry.name.endsWith(')');
+          walk(entryPath, isGroup ? segments : [...segments, entry.name]);
+        } else if (isPageFile(entry.name, 'page')) {
+          patterns.push({ segments, source: 'next-app', file: entryPath });
+        }
+      }
+    };
+    walk(dir, []);
+    return patterns;
+  }
+
+  private scanNextPagesRouter(dir: string): RoutePattern[] {
+    const patterns: RoutePattern[] = [];
+    const walk = (relativeDir: string, segments: string[]) => {
+      for (const entry of this.readDir(relativeDir)) {
+        const entryPath = path.posix.join(relativeDir, entry.name);
+        if (entry.isDirectory()) {
+          if (segments.length === 0 && entry.name === 'api') {
+            continue;
+          }
+          walk(entryPath, [...segments, entry.name]);
+          continue;
+        }
+        const extension = path.extname(entry.name);
+        const name = path.basename(entry.name, extension);
+        if (!PAGE_EXTENSIONS.includes(extension) || name.startsWith('_')) {
+          continue;
+        }
+        patterns.push({
+          segments: name === 'index' ? segments : [...segments, name],
+          source: 'next-pages',
+          file: entryPath,
+        });
+      }
+    };
+    walk(dir, []);
+    return patterns;
+  }
+
+  private scanSvelteKitRoutes(dir: string): RoutePattern[] {
+    const patterns: RoutePattern[] = [];
+    const walk = (relativeDir: string, segments: string[]) => {
+      for (const entry of this.readDir(relativeDir)) {
+        const entryPath = path.posix.join(relativeDir, entry.name);
+        if (entry.isDirectory()) {
+          const isGroup = entry.name.startsWith('(') && entry.name.endsWith(')');
+          walk(entryPath, isGroup ? segments : [...segments, entry.name]);
+        } else if (entry.name.startsWith('+page.') && !entry.name.includes('.server.')) {
+          patterns.push({ segments, source: 'sveltekit', file: entryPath });
+        }
+      }
+    };
+    walk(dir, []);
+    return patterns;
+  }
+
+  /**
+   * Remix flat routes: `blog.$slug.tsx` is `/blog/$slug`, `_index` is the
+   * parent path and `_`-prefixed segments are pathless layouts.
+   */
+  private scanRemixRoutes(dir: string): RoutePattern[] {
+    const patterns: RoutePattern[] = [];
+    for (const entry of this.readDir(dir)) {
+      const entryPath = path.posix.join(dir, entry.name);
+      let name: string;
+      let file = entryPath;
+      if (entry.isDirectory()) {
+        const routeFile = this.readDir(entryPath).find(child => isPageFile(child.name, 'route'));
+        if (!routeFile) {
+          continue;
+        }
+        name = entry.name;
+        file = path.posix.join(entryPath, routeFile.name);
+      } else {
+        const extension = path.extname(entry.name);
+        if (!PAGE_EXTENSIONS.includes(extension)) {
+          continue;
+        }
+        name = path.basename(entry.name, extension);
+      }
+
+      const segments = name
+        .split('.')
+        .filter(segment => segment !== '_index' && !segment.startsWith('_'))
+        .map(segment => segment.replace(/_$/, ''))
+        .map(segment => (segment.startsWith('$') ? `[${segment.slice(1) || '...splat'}]` : segment));
+      patterns.push({ segments, source: 'remix', file });
+    }
+    return patterns;
+  }
+
+  private readDir(relativeDir: string): fs.Dirent[] {
+    const absolute = path.join(this.workspaceRoot, relativeDir);
+    if (!fs.existsSync(absolute) || !fs.statSync(absolute).isDirectory()) {
+      return [];
+    }
+    return fs.readdirSync(absolute, { withFileTypes: true })
+      .filter(entry => !IGNORED_DIRECTORIES.has(entry.name));
+  }
+}
+
+function isPageFile(fileName: string, baseName: string): boolean {
+  const extension = path.extname(fileName);
+  return PAGE_EXTENSIONS.includes(extension) && path.basename(fileName, extension) === baseName;
+}
+
+/**
+ * Replaces `[id]`, `[...slug]` and `[[...slug]]` segments with example
+ * values. Returns undefined when a required value is missing; optional
+ * catch-all segments without a value are dropped.
+ */
+function resolveSegments(segments: string[], routeParams: Record<string, string>): string[] | undefined {
+  const resolved: string[] = [];
+  for (const segment of segments) {
+    const match = segment.match(/^\[(\[)?(\.\.\.)?([^\]]+)\]?\]$/);
+    if (!match) {
+      resolved.push(segment);
+      continue;
+    }
+    const isOptional = Boolean(match[1]);
+    // SvelteKit matchers: [id=integer]
+    const name = match[3].split('=')[0];
+    const value = routeParams[name];
+    if (value !== undefined) {
+      resolved.push(value.replace(/^\/+|\/+$/g, ''));
+    } else if (!isOptional) {
+      return undefined;
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Minimal glob support for route mappings: `**` spans directories, `*` and
+ * `?` stay within one path segment.
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" matches zero or more directories
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function toPath(segments: string[]): string {
+  return '/' + segments.filter(segment => segment.length > 0).join('/');
+}
@@ -0,0 +1,286 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { Node, parseTree, ParseError, printParseErrorCode } from 'jsonc-parser';
+
+/** Checked-in description of the pages to test, at the workspace root */
+export const MANIFEST_FILE = 'visual-regression.json';
+
+export type ManifestActionType = 'click' | 'hover' | 'fill' | 'scroll';
+
+export interface ManifestAction {
+  type: ManifestActionType;
+  selector?: string;
+  /** Text typed by `fill` */
+  value?: string;
+  /** Scroll position for `scroll` without a selector */
+  x?: number;
+  y?: number;
+}
+
+export interface ManifestScreenshot {
+  /** Appended to the page's screenshot name */
+  name: string;
+  selector: string;
+}
+
+export interface ManifestRoute {
+  path: string;
+  /** Label in the Test Explorer and route picker */
+  name?: string;
+  /** Overrides visualRegression.waitForSelector for this page */
+  waitForSelector?: string;
+  /** Element-only screenshots taken instead of the full page */
+  screenshots?: ManifestScreenshot[];
+  /** Run in order after the page has loaded, before any screenshot */
+  actions?: ManifestAction[];
+  viewport?: { width: number; height: number };
+}
+
+export interface ManifestProblem {
+  message: string;
+  /** Character offsets into the manifest text */
+  start: number;
+  end: number;
+  severity: 'error' | 'warning';
+}
+
+export interface RouteManifest {
+  file: string;
+  /** Routes that passed validation */
+  routes: ManifestRoute[];
+  problems: ManifestProblem[];
+}
+
+const ACTION_TYPES: ManifestActionType[] = ['click', 'hover', 'fill', 'scroll'];
+const ROUTE_KEYS = ['path', 'name', 'waitForSelector', 'screenshots', 'actions', 'viewport'];
+const SCREENSHOT_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+/** Returns undefined when the workspace has no manifest */
+export function readRouteManifest(workspaceRoot: string): RouteManifest | undefined {
+  const file = path.join(workspaceRoot, MANIFEST_FILE);
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  return parseRouteManifest(fs.readFileSync(file, 'utf8'), file);
+}
+
+export function parseRouteManifest(text: string, file: string): RouteManifest {
+  const problems: ManifestProblem[] = [];
+  const syntaxErrors: ParseError[] = [];
+  const tree = parseTree(text, syntaxErrors, { allowTrailingComma: false });
+  for (const error of syntaxErrors) {
+    // e.g. PropertyNameExpected → "property name expected"
+    const description = printParseErrorCode(error.error).replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+    problems.push({
+      message: `JSON syntax error: ${description}`,
+      start: error.offset,
+      end: error.offset + Math.max(error.length, 1),
+      severity: 'error',
+    });
+  }
+  if (!tree || problems.length > 0) {
+    if (problems.length === 0) {
+      problems.push({ message: 'Expected a JSON object', start: 0, end: 1, severity: 'error' });
+    }
+    return { file, routes: [], problems };
+  }
+  const root = toJsonNode(tree);
+
+  const report = (node: JsonNode, message: string, severity: ManifestProblem['severity'] = 'error') => {
+    problems.push({ message, start: node.start, end: node.end, severity });
+  };
+
+  const routesNode = root.kind === 'object' ? root.properties!.get('routes') : undefined;
+  if (!routesNode || routesNode.kind !== 'array') {
+    report(routesNode ?? root, 'Expected a "routes" array');
+    return { file, routes: [], problems };
+  }
+
+  const routes: ManifestRoute[] = [];
+  const seenPaths = new Set<string>();
+  for (const routeNode of routesNode.items!) {
+    const errorsBefore = problems.filter(p => p.severity === 'error').length;
+    const route = validateRoute(routeNode, report);
+    const hasErrors = problems.filter(p => p.severity === 'error').length > errorsBefore;
+    if (!route || hasErrors) {
+      continue;
+    }
+    if (seenPaths.has(route.path)) {
+      report(routeNode.properties!.get('path')!, `Duplicate route path "${route.path}"`);
+      continue;
+    }
+    seenPaths.add(route.path);
+    routes.push(route);
+  }
+
+  return { file, routes, problems };
+}
+
+type Report = (node: JsonNode, message: string, severity?: ManifestProblem['severity']) => void;
+
+function validateRoute(node: JsonNode, report: Report): ManifestRoute | undefined {
+  if (node.kind !== 'object') {
+    report(node, 'Each route must be an object');
+    return undefined;
+  }
+  const props = node.properties!;
+  for (const [key, valueNode] of props) {
+    if (!ROUTE_KEYS.includes(key)) {
+      report(valueNode, `Unknown route property "${key}"`, 'warning');
+    }
+  }
+
+  const pathNode = props.get('path');
+  if (!pathNode || typeof pathNode.value !== 'string') {
+    report(pathNode ?? node, 'Route needs a "path" string, e.g. "/about"');
+    return undefined;
+  }
+  if (!pathNode.value.startsWith('/')) {
+    report(pathNode, 'Route path must start with "/"');
+  }
+
+  const route: ManifestRoute = { path: pathNode.value };
+  route.name = optionalString(props.get('name'), 'name', report);
+  route.waitForSelector = optionalString(props.get('waitForSelector'), 'waitForSelector', report);
+
+  const viewportNode = props.get('viewport');
+  if (viewportNode) {
+    const width = viewportNode.properties?.get('width');
+    const height = viewportNode.properties?.get('height');
+    if (!isPositiveNumber(width?.value) || !isPositiveNumber(height?.value)) {
+      report(viewportNode, 'Viewport needs positive "width" and "height" numbers');
+    } else {
+      route.viewport = { width: width!.value as number, height: height!.value as number };
+    }
+  }
+
+  const screenshotsNode = props.get('screenshots');
+  if (screenshotsNode) {
+    route.screenshots = validateScreenshots(screenshotsNode, report);
+  }
+
+  const actionsNode = props.get('actions');
+  if (actionsNode) {
+    route.actions = validateActions(actionsNode, report);
+  }
+
+  return route;
+}
+
+function validateScreenshots(node: JsonNode, report: Report): ManifestScreenshot[] {
+  if (node.kind !== 'array') {
+    report(node, '"screenshots" must be an array of { "name", "selector" }');
+    return [];
+  }
+  const screenshots: ManifestScreenshot[] = [];
+  const names = new Set<string>();
+  for (const item of node.items!) {
+    const name = item.properties?.get('name');
+    const selector = item.properties?.get('selector');
+    if (typeof name?.value !== 'string' || !SCREENSHOT_NAME_PATTERN.test(name.value)) {
+      report(name ?? item, 'Screenshot "name" must use only letters, digits, "-" and "_"');
+    } else if (typeof selector?.value !== 'string' || selector.value.length === 0) {
+      report(selector ?? item, 'Screenshot needs a "selector" string');
+    } else if (names.has(name.value)) {
+      report(name, `Duplicate screenshot name "${name.value}"`);
+    } else {
+      names.add(name.value);
+      screenshots.push({ name: name.value, selector: selector.value });
+    }
+  }
+  return screenshots;
+}
+
+function validateActions(node: JsonNode, report: Report): ManifestAction[] {
+  if (node.kind !== 'array') {
+    report(node, '"actions" must be an array');
+    return [];
+  }
+  const actions: ManifestAction[] = [];
+  for (const item of node.items!) {
+    const props = item.properties;
+    const typeNode = props?.get('type');
+    const type = typeNode?.value as ManifestActionType;
+    if (!ACTION_TYPES.includes(type)) {
+      report(typeNode ?? item, `Action "type" must be one of: ${ACTION_TYPES.join(', ')}`);
+      continue;
+    }
+    const action: ManifestAction = { type };
+    const selector = props!.get('selector');
+    if (selector) {
+      action.selector = optionalString(selector, 'selector', report);
+    }
+
+    if (type !== 'scroll' && !action.selector) {
+      report(item, `"${type}" needs a "selector"`);
+      continue;
+    }
+    if (type === 'fill') {
+      const value = props!.get('value');
+      if (typeof value?.value !== 'string') {
+        report(value ?? item, '"fill" needs a "value" string');
+        continue;
+      }
+      action.value = value.value;
+    }
+    if (type === 'scroll' && !action.selector) {
+      const x = props!.get('x')?.value ?? 0;
+      const y = props!.get('y')?.value ?? 0;
+      if (typeof x !== 'number' || typeof y !== 'number') {
+        report(item, '"scroll" needs a "selector" or numeric "x"/"y"');
+        continue;
+      }
+      action.x = x;
+      action.y = y;
+    }
+    actions.push(action);
+  }
+  return actions;
+}
+
+function optionalString(node: JsonNode | undefined, key: string, report: Report): string | undefined {
+  if (!node) {
+    return undefined;
+  }
+  if (typeof node.value !== 'string') {
+    report(node, `"${key}" must be a string`);
+    return undefined;
+  }
+  return node.value;
+}
+
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === 'number' && value > 0;
+}
+
+interface JsonNode {
+  kind: 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+  value: unknown;
+  start: number;
+  end: number;
+  properties?: Map<string, JsonNode>;
+  items?: JsonNode[];
+}
+
+/** Gives jsonc-parser's tree the lookups validation needs, keeping each value's offsets */
+function toJsonNode(node: Node): JsonNode {
+  const base = { start: node.offset, end: node.offset + node.length };
+  if (node.type === 'object') {
+    const properties = new Map<string, JsonNode>();
+    const value: Record<string, unknown> = {};
+    for (const property of node.children ?? []) {
+      const [key, child] = property.children ?? [];
+      if (key && child) {
+        const childNode = toJsonNode(child);
+        properties.set(key.value, childNode);
+        value[key.value] = childNode.value;
+      }
+    }
+    return { ...base, kind: 'object', value, properties };
+  }
+  if (node.type === 'array') {
+    const items = (node.children ?? []).map(toJsonNode);
+    return { ...base, kind: 'array', value: items.map(item => item.value), items };
+  }
+  return { ...base, kind: node.type as JsonNode['kind'], value: node.value };
+}
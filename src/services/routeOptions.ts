@@ -0,0 +1,95 @@
+import { ManifestRoute } from './routeManifest';
+import { Settings } from './settings';
+
+/** Settings keyed by route: `*` applies to every page, a path to that page only */
+export type PerRoute<T> = Record<string, T>;
+
+export interface DiffThresholds {
+  maxDiffPixels?: number;
+  maxDiffPixelRatio?: number;
+  /** Per-pixel color distance (0-1) before a pixel counts as different */
+  threshold?: number;
+}
+
+export interface IgnoreRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * What the template spec applies to one page before its screenshot. Sent as
+ * JSON in VISUAL_REGRESSION_ROUTES, keyed by the URL path being tested.
+ */
+export interface RouteOptions {
+  /** Selectors passed to Playwright's `mask` option */
+  mask?: string[];
+  /** Selectors hidden with injected CSS while the screenshot is taken */
+  hide?: string[];
+  /** Page coordinates covered with a solid box before the screenshot */
+  ignoreRegions?: IgnoreRegion[];
+  /** Spread into toHaveScreenshot; only keys that are configured are present */
+  thresholds?: DiffThresholds;
+  /** From visual-regression.json */
+  waitForSelector?: ManifestRoute['waitForSelector'];
+  screenshots?: ManifestRoute['screenshots'];
+  actions?: ManifestRoute['actions'];
+  viewport?: ManifestRoute['viewport'];
+}
+
+export const ALL_ROUTES_KEY = '*';
+
+export function resolveRouteOptions(
+  config: Settings,
+  urlPaths: string[],
+  manifestRoutes: ManifestRoute[] = [],
+): PerRoute<RouteOptions> {
+  const mask = config.get<PerRoute<string[]>>('mask', {});
+  const hide = config.get<PerRoute<string[]>>('hideSelectors', {});
+  const ignoreRegions = config.get<PerRoute<IgnoreRegion[]>>('ignoreRegions', {});
+  const routeThresholds = config.get<PerRoute<DiffThresholds>>('routeThresholds', {});
+  const globalThresholds: DiffThresholds = {
+    maxDiffPixels: config.get<number | null>('maxDiffPixels', null) ?? undefined,
+    maxDiffPixelRatio: config.get<number | null>('maxDiffPixelRatio', null) ?? undefined,
+    threshold: config.get<number | null>('threshold', null) ?? undefined,
+  };
+
+  const resolved: PerRoute<RouteOptions> = {};
+  for (const urlPath of urlPaths) {
+    const manifestRoute = manifestRoutes.find(route => route.path === urlPath);
+    const options: RouteOptions = {
+      mask: forRoute(mask, urlPath),
+      hide: forRoute(hide, urlPath),
+      ignoreRegions: forRoute(ignoreRegions, urlPath),
+      waitForSelector: manifestRoute?.waitForSelector,
+      screenshots: manifestRoute?.screenshots,
+      actions: manifestRoute?.actions,
+      viewport: manifestRoute?.viewport,
+    };
+    resolved[urlPath] = Object.fromEntries(
+      Object.entries(options).filter(([, value]) => value !== undefined && (!Array.isArray(value) || value.length > 0)),
+    );
+
+    const thresholds = definedOnly({ ...globalThresholds, ...routeThresholds[urlPath] });
+    if (Object.keys(thresholds).length > 0) {
+      resolved[urlPath].thresholds = thresholds;
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Drops unset keys: an explicit undefined passed to toHaveScreenshot would
+ * override the value from playwright.config.
+ */
+function definedOnly(thresholds: DiffThresholds): DiffThresholds {
+  return Object.fromEntries(
+    Object.entries(thresholds).filter(([, value]) => value !== undefined && value !== null),
+  );
+}
+
+/** Global entries first, then the route's own */
+function forRoute<T>(setting: PerRoute<T[]>, urlPath: string): T[] {
+  return [...(setting[ALL_ROUTES_KEY] ?? []), ...(setting[urlPath] ?? [])];
+}
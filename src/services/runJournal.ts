@@ -0,0 +1,159 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { GitService } from './gitService';
+import { killProcessGroup } from './processGroup';
+import { RunLog } from './runLog';
+import { ServerService } from './serverService';
+
+const JOURNAL_KEY = 'visualRegression.runJournal';
+
+export interface RunJournalEntry {
+  /** Branch the user was on when the run started */
+  originalBranch: string;
+  isolation: 'worktree' | 'checkout';
+  serverPort: number;
+  /** Step in progress, as shown in the output channel */
+  step: string;
+  startedAt: string;
+  /** Temp directory holding the captured baseline snapshots */
+  tmpDir?: string;
+  worktreePath?: string;
+  /** Process group leader of the dev server started for the run */
+  serverPid?: number;
+  /** Command the dev server was started with, to recognise its process after a restart */
+  serverCommand?: string;
+  /** Stash holding the user's uncommitted changes while the baseline is checked out */
+  stashSha?: string;
+  /** Test files left out of the stash, to keep when switching back */
+  keepPaths?: string[];
+}
+
+/** Where the journal is kept; vscode.Memento (workspace state) satisfies it */
+export interface JournalStore {
+  get<T>(key: string): T | undefined;
+  update(key: string, value: unknown): PromiseLike<void>;
+}
+
+/**
+ * A JSON file standing in for workspace state outside VS Code; removed once
+ * empty. Written to a temp file and renamed into place, so a crash mid-write
+ * never leaves a half-written journal behind.
+ */
+export function fileJournalStore(file: string): JournalStore {
+  const read = (): Record<string, unknown> => {
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch {
+      return {};
+    }
+  };
+  return {
+    get: <T>(key: string) => read()[key] as T | undefined,
+    update: async (key, value) => {
+      const values = { ...read(), [key]: value };
+      if (value === undefined) {
+        delete values[key];
+      }
+      if (Object.keys(values).length === 0) {
+        await fs.promises.rm(file, { force: true });
+        return;
+      }
+      const tmpFile = `${file}.${process.pid}.tmp`;
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.writeFile(tmpFile, JSON.stringify(values, null, 2));
+      await fs.promises.rename(tmpFile, file);
+    },
+  };
+}
+
+/**
+ * Records what a run has changed in workspace state, so a run that never
+ * reached its cleanup (VS Code quit, extension host crashed) can be undone
+ * on the next activation.
+ */
+export class RunJournal {
+  /** Writes run one at a time, so each update builds on the one before it */
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly state: JournalStore) {}
+
+  read(): RunJournalEntry | undefined {
+    return this.state.get<RunJournalEntry>(JOURNAL_KEY);
+  }
+
+  begin(entry: Omit<RunJournalEntry, 'startedAt'>): Promise<void> {
+    return this.enqueue(() => this.state.update(JOURNAL_KEY, { ...entry, startedAt: new Date().toISOString() }));
+  }
+
+  update(changes: Partial<RunJournalEntry>): Promise<void> {
+    return this.enqueue(async () => {
+      const entry = this.read();
+      if (entry) {
+        await this.state.update(JOURNAL_KEY, { ...entry, ...changes });
+      }
+    });
+  }
+
+  /** Waits for pending updates, so none of them can bring the journal back */
+  finish(): Promise<void> {
+    return this.enqueue(() => this.state.update(JOURNAL_KEY, undefined));
+  }
+
+  private enqueue(write: () => PromiseLike<void>): Promise<void> {
+    const result = this.pending.then(write);
+    // A failed write is reported to its caller and doesn't stop the ones queued after it
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * Undoes what an interrupted run left behind: its dev server, baseline
+ * worktree, checked-out branch, stash, snapshots and temp directory.
+ * Resolves with a description of each step taken.
+ */
+export async function restoreWorkspace(entry: RunJournalEntry, workspaceRoot: string): Promise<string[]> {
+  const gitService = new GitService(workspaceRoot);
+  const serverService = new ServerService(workspaceRoot);
+  const restored: string[] = [];
+
+  // Only the run's own server is stopped; a reused server was never journaled
+  if (entry.serverPid) {
+    if (await serverService.isOrphanedServer(entry.serverPid, entry.serverPort, entry.serverCommand)) {
+      // An orphan this session never spawned, so stop() cannot reach it
+      RunLog.get().info('server', `Killing process group ${entry.serverPid}`);
+      killProcessGroup(entry.serverPid);
+      restored.push(await serverService.waitForPortRelease(entry.serverPort)
+        ? `port ${entry.serverPort} freed`
+        : `port ${entry.serverPort} still in use`);
+    } else {
+      restored.push('dev server already stopped');
+    }
+  }
+
+  if (entry.worktreePath) {
+    await gitService.removeWorktree(entry.worktreePath);
+    restored.push('baseline worktree removed');
+  }
+
+  const currentBranch = await gitService.getCurrentBranch();
+  if (currentBranch !== entry.originalBranch) {
+    await gitService.checkout(entry.originalBranch, entry.keepPaths);
+    restored.push(`switched back to '${entry.originalBranch}'`);
+  }
+
+  if (entry.stashSha) {
+    await gitService.unstash(entry.stashSha);
+    restored.push('uncommitted changes unstashed');
+  }
+
+  await gitService.restoreCommittedSnapshots();
+  restored.push('snapshots restored');
+
+  if (entry.tmpDir) {
+    await gitService.cleanupTemp(entry.tmpDir);
+    restored.push('temp directory removed');
+  }
+
+  return restored;
+}
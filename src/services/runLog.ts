@@ -0,0 +1,113 @@
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+const LEVEL_ORDER: LogLevel[] = ['error', 'warn', 'info', 'debug'];
+
+/** Color codes dev servers and Playwright print even without a terminal */
+const ANSI_ESCAPES = /\x1b\[[0-9;?]*[A-Za-z]/g;
+
+export interface LineWriter {
+  /** Accepts raw process output; complete lines are logged as they arrive */
+  write(data: Buffer | string): void;
+  /** Logs a trailing line that had no newline */
+  end(): void;
+}
+
+/** Where log lines end up; a VS Code output channel satisfies it */
+export interface LogSink {
+  appendLine(line: string): void;
+  show?(preserveFocus?: boolean): void;
+  dispose?(): void;
+}
+
+/**
+ * The "Visual Regression: Logs" output channel. Server, build and Playwright
+ * output is streamed here live, each line tagged with the phase of the run
+ * (e.g. `baseline main`) and its source, and filtered by
+ * visualRegression.logLevel. Until a sink is attached, lines go to the console.
+ */
+export class RunLog {
+  private static instance: RunLog | undefined;
+
+  private level: LogLevel = 'info';
+  private phase = '';
+
+  static get(): RunLog {
+    RunLog.instance ??= new RunLog({ appendLine: line => console.log(line) });
+    return RunLog.instance;
+  }
+
+  /** Sends every following line to `sink`, replacing the current log */
+  static attach(sink: LogSink): RunLog {
+    RunLog.instance?.dispose();
+    RunLog.instance = new RunLog(sink);
+    return RunLog.instance;
+  }
+
+  private constructor(private readonly sink: LogSink) {}
+
+  setLevel(level: LogLevel): void {
+    this.level = level;
+  }
+
+  /** Tags every following line, until the next call; empty between runs */
+  setPhase(phase: string): void {
+    this.phase = phase;
+  }
+
+  log(level: LogLevel, source: string, message: string): void {
+    if (LEVEL_ORDER.indexOf(level) > LEVEL_ORDER.indexOf(this.level)) {
+      return;
+    }
+    const timestamp = new Date().toLocaleTimeString();
+    const tags = [this.phase, source].filter(Boolean).map(tag => `[${tag}]`).join(' ');
+    const marker = level === 'error' || level === 'warn' ? ` ${level.toUpperCase()}` : '';
+    for (const line of message.split(/\r?\n/)) {
+      this.sink.appendLine(`[${timestamp}]${marker} ${tags} ${line}`);
+    }
+  }
+
+  warn(source: string, message: string): void {
+    this.log('warn', source, message);
+  }
+
+  info(source: string, message: string): void {
+    this.log('info', source, message);
+  }
+
+  debug(source: string, message: string): void {
+    this.log('debug', source, message);
+  }
+
+  /** Splits a child process's output into lines for the log */
+  lineWriter(source: string, level: LogLevel = 'info'): LineWriter {
+    let pending = '';
+    const flush = (line: string) => {
+      const text = line.replace(ANSI_ESCAPES, '').trimEnd();
+      if (text.length > 0) {
+        this.log(level, source, text);
+      }
+    };
+    return {
+      write: (data) => {
+        const lines = (pending + String(data)).split(/\r?\n|\r/);
+        pending = lines.pop() ?? '';
+        lines.forEach(flush);
+      },
+      end: () => {
+        flush(pending);
+        pending = '';
+      },
+    };
+  }
+
+  show(): void {
+    this.sink.show?.(true);
+  }
+
+  dispose(): void {
+    this.sink.dispose?.();
+    if (RunLog.instance === this) {
+      RunLog.instance = undefined;
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { Settings } from './settings';
+
+export type ServerSide = 'baseline' | 'feature';
+
+/**
+ * How to run the dev server for one side of the comparison. Every field is
+ * optional and falls back to the matching top-level server setting.
+ */
+export interface ServerProfile {
+  /** Runs to completion before the server starts, e.g. `npm run build` */
+  preStartCommand?: string;
+  startCommand?: string;
+  /** Merged over visualRegression.environmentVariables */
+  environmentVariables?: Record<string, string>;
+  readyUrl?: string;
+  readyStatus?: number;
+  readyPattern?: string;
+  readyTimeout?: number;
+}
+
+export type ResolvedServerProfile = Required<Omit<ServerProfile, 'preStartCommand'>> &
+  Pick<ServerProfile, 'preStartCommand'>;
+
+/** Lockfiles whose changes between refs require a fresh dependency install, with their install command */
+export const LOCKFILE_INSTALL_COMMANDS: Record<string, string> = {
+  'package-lock.json': 'npm ci',
+  'yarn.lock': 'yarn install --frozen-lockfile',
+  'pnpm-lock.yaml': 'pnpm install --frozen-lockfile',
+  'bun.lockb': 'bun install --frozen-lockfile',
+};
+
+export function resolveServerProfile(
+  config: Settings,
+  side: ServerSide,
+): ResolvedServerProfile {
+  const profile = config.get<ServerProfile>(side === 'baseline' ? 'baselineServer' : 'featureServer', {});
+  return {
+    preStartCommand: profile.preStartCommand || undefined,
+    startCommand: profile.startCommand || config.get<string>('serverStartCommand', 'npm run dev'),
+    environmentVariables: {
+      ...config.get<Record<string, string>>('environmentVariables', {}),
+      ...profile.environmentVariables,
+    },
+    readyUrl: profile.readyUrl ?? config.get<string>('serverReadyUrl', ''),
+    readyStatus: profile.readyStatus ?? config.get<number>('serverReadyStatus', 200),
+    readyPattern: profile.readyPattern ?? config.get<string>('serverReadyPattern', ''),
+    readyTimeout: profile.readyTimeout ?? config.get<number>('serverReadyTimeout', 120000),
+  };
+}
+
+/**
+ * visualRegression.installCommand, or the command matching the lockfile
+ * found in `root`.
+ */
+export function installCommandFor(config: Settings, root: string): string | undefined {
+  const configured = config.get<string>('installCommand', '');
+  if (configured) {
+    return configured;
+  }
+  const lockfile = Object.keys(LOCKFILE_INSTALL_COMMANDS).find(file => fs.existsSync(path.join(root, file)));
+  return lockfile ? LOCKFILE_INSTALL_COMMANDS[lockfile] : undefined;
+}
@@ -1,101 +1,520 @@
-import { exec, ChildProcess } from 'node:child_process';
+import { execFile, spawn, ChildProcess } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as http from 'node:http';
+import * as https from 'node:https';
+import * as net from 'node:net';
+import * as path from 'node:path';
 import { promisify } from 'node:util';
-import * as vscode from 'vscode';
+import { CancelledError, throwIfCancelled } from './cancellation';
+import { killProcessGroup } from './processGroup';
+import { RunLog } from './runLog';
+import { installCommandFor, ResolvedServerProfile, resolveServerProfile, ServerSide } from './serverProfiles';
+import { startStaticServer } from './staticServer';
+import { getSettings } from './settings';
 
-const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+const MAX_OUTPUT_LINES = 50;
+const MAX_POLL_INTERVAL = 2000;
+const PORT_CHECK_TIMEOUT = 1000;
+const PORT_RELEASE_TIMEOUT = 10000;
+/** How long a dev server gets to exit on SIGTERM before its process group is killed */
+const STOP_TIMEOUT = 5000;
+
+/** Servers may listen on either loopback address, depending on how "localhost" resolves */
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1'];
 
 export class ServerService {
   private serverProcess: ChildProcess | null = null;
+  private staticServer: http.Server | null = null;
+  private serverPort: number | undefined;
+  private startCommand: string | undefined;
+  private profile: ResolvedServerProfile | undefined;
+  private recentOutput: string[] = [];
 
   constructor(private readonly workspaceRoot: string) {}
 
-  private async isPortInUse(port: number): Promise<boolean> {
-    try {
-      const { stdout } = await execAsync(`lsof -ti:${port}`);
-      return stdout.trim().length > 0;
-    } catch {
-      // lsof returns non-zero exit code if port is free
-      return false;
+  get pid(): number | undefined {
+    return this.serverProcess?.pid;
+  }
+
+  /** Port of the server this instance started, while it runs */
+  get port(): number | undefined {
+    return this.isRunning ? this.serverPort : undefined;
+  }
+
+  /** Command the running dev server was started with */
+  get command(): string | undefined {
+    return this.serverProcess ? this.startCommand : undefined;
+  }
+
+  /** Whether this instance has a dev server or static server to stop */
+  get isRunning(): boolean {
+    return this.serverProcess !== null || this.staticServer !== null;
+  }
+
+  /** True when something accepts connections on the port */
+  async isPortInUse(port: number): Promise<boolean> {
+    const results = await Promise.all(LOOPBACK_HOSTS.map(host => this.canConnect(host, port)));
+    return results.includes(true);
+  }
+
+  private canConnect(host: string, port: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const socket = net.connect({ host, port });
+      const done = (connected: boolean) => {
+        socket.destroy();
+        resolve(connected);
+      };
+      socket.setTimeout(PORT_CHECK_TIMEOUT, () => done(false));
+      socket.once('connect', () => done(true));
+      socket.once('error', () => done(false));
+    });
+  }
+
+  /** Asks the OS for an unused port */
+  private findFreePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const server = net.createServer();
+      server.unref();
+      server.once('error', reject);
+      server.listen(0, () => {
+        const { port } = server.address() as net.AddressInfo;
+        server.close(() => resolve(port));
+      });
+    });
+  }
+
+  /**
+   * The configured port, or with `serverPortMode: auto` a free one. In fixed
+   * mode a busy port is an error, unless the user's own server holds it
+   * (`reuseRunningServer`) - then this server moves aside to a free port.
+   */
+  private async choosePort(): Promise<number> {
+    const config = getSettings();
+    const serverPort = config.get<number>('serverPort', 3000);
+    const portMode = config.get<'fixed' | 'auto'>('serverPortMode', 'fixed');
+
+    if (portMode === 'fixed') {
+      if (!(await this.isPortInUse(serverPort))) {
+        return serverPort;
+      }
+      if (!config.get<boolean>('reuseRunningServer', false)) {
+        throw new Error(
+          `Port ${serverPort} is already in use. Please stop the process using this port, set visualRegression.serverPortMode to "auto", or enable visualRegression.reuseRunningServer.`
+        );
+      }
+      RunLog.get().info('server', `Port ${serverPort} is held by the running server, picking a free port`);
     }
+
+    const port = await this.findFreePort();
+    RunLog.get().info('server', `Using free port ${port}`);
+    return port;
   }
 
-  async start(): Promise<void> {
-    const config = vscode.workspace.getConfiguration('visualRegression');
-    const startCommand = config.get<string>('serverStartCommand', 'npm run dev');
+  /**
+   * Whether a server is already answering the readiness check on the
+   * configured port, so the feature side can use it instead of starting one.
+   */
+  async findRunningServer(): Promise<number | undefined> {
+    const config = getSettings();
+    // A static build is always served fresh
+    if (!config.get<boolean>('reuseRunningServer', false) || config.get<string>('serverMode', 'dev') === 'static') {
+      return undefined;
+    }
     const serverPort = config.get<number>('serverPort', 3000);
-    const customEnvVars = config.get<Record<string, string>>('environmentVariables', {});
+    const profile = resolveServerProfile(config, 'feature');
+    const status = await this.probe(this.readyUrl(profile, serverPort));
+    if (status !== profile.readyStatus) {
+      RunLog.get().debug('server', `No running server to reuse on port ${serverPort}`);
+      return undefined;
+    }
+    RunLog.get().info('server', `Reusing the server already running on port ${serverPort}`);
+    return serverPort;
+  }
 
-    // Check if port is already in use
-    const portInUse = await this.isPortInUse(serverPort);
-    if (portInUse) {
-      throw new Error(
-        `Port ${serverPort} is already in use. Please stop the process using this port or configure a different port in settings (visualRegression.serverPort).`
-      );
+  /**
+   * Runs the side's pre-start command (e.g. a build) to completion in `cwd`.
+   * Does nothing when the profile has none.
+   */
+  async runPreStart(side: ServerSide, cwd: string = this.workspaceRoot, signal?: AbortSignal): Promise<void> {
+    const config = getSettings();
+    const profile = resolveServerProfile(config, side);
+    if (profile.preStartCommand) {
+      await this.runToCompletion('pre-start', profile.preStartCommand, cwd, { ...process.env, ...profile.environmentVariables }, signal);
+    }
+  }
+
+  /**
+   * Runs visualRegression.staticBuildCommand in `cwd` with the side's
+   * environment variables, for `serverMode: static`.
+   */
+  async build(side: ServerSide, cwd: string = this.workspaceRoot, signal?: AbortSignal): Promise<void> {
+    const config = getSettings();
+    const profile = resolveServerProfile(config, side);
+    const buildCommand = config.get<string>('staticBuildCommand', 'npm run build');
+    await this.runToCompletion('build', buildCommand, cwd, { ...process.env, ...profile.environmentVariables }, signal);
+  }
+
+  /** Installs dependencies in `cwd` with the configured or detected install command */
+  async installDependencies(cwd: string = this.workspaceRoot, signal?: AbortSignal): Promise<void> {
+    const command = installCommandFor(getSettings(), cwd);
+    if (!command) {
+      throw new Error('No lockfile found to install dependencies from. Set visualRegression.installCommand.');
     }
+    await this.runToCompletion('install', command, cwd, process.env, signal);
+  }
 
-    if (this.serverProcess) {
+  /**
+   * Starts the dev server for one side of the comparison and resolves with
+   * the port it was told to use, via `{port}` in the start command and the
+   * configured port environment variable.
+   */
+  async start(cwd: string = this.workspaceRoot, side: ServerSide = 'feature'): Promise<number> {
+    const config = getSettings();
+    const profile = resolveServerProfile(config, side);
+    const portEnvVar = config.get<string>('serverPortEnvVar', 'PORT');
+
+    if (this.isRunning) {
       await this.stop();
     }
 
+    const port = await this.choosePort();
+    if (config.get<string>('serverMode', 'dev') === 'static') {
+      return this.serveStaticBuild(cwd, port);
+    }
+    const startCommand = profile.startCommand.replaceAll('{port}', String(port));
+
     // Pass environment variables to the server (critical for NEXT_PUBLIC_* vars)
     const env = { 
       ...process.env,
-      ...customEnvVars
+      ...profile.environmentVariables,
+      ...(portEnvVar ? { [portEnvVar]: String(port) } : {})
     };
 
-    console.log('[Server] Starting with environment variables:', Object.keys(customEnvVars));
+    const runLog = RunLog.get();
+    runLog.debug('server', `Environment variables: ${Object.keys(profile.environmentVariables).join(', ') || 'none'}`);
+    runLog.info('server', `$ ${startCommand} (${portEnvVar || 'port'}=${port}, in ${cwd})`);
 
-    this.serverProcess = exec(startCommand, {
-      cwd: this.workspaceRoot,
-      env
+    // Own process group so stop() can take down the whole dev server tree
+    this.serverPort = port;
+    this.profile = profile;
+    this.startCommand = startCommand;
+    this.serverProcess = spawn(startCommand, {
+      cwd,
+      env,
+      shell: true,
+      detached: true
     });
 
-    // Log server output for debugging
+    this.recentOutput = [];
+
+    // Stream server output to the log channel as it arrives
+    const stdout = runLog.lineWriter('server');
+    const stderr = runLog.lineWriter('server', 'warn');
     this.serverProcess.stdout?.on('data', (data) => {
-      console.log(`Server: ${data}`);
+      stdout.write(data);
+      this.recordOutput(String(data));
     });
 
     this.serverProcess.stderr?.on('data', (data) => {
-      console.error(`Server Error: ${data}`);
+      stderr.write(data);
+      this.recordOutput(String(data));
     });
+
+    this.serverProcess.on('exit', (code, signal) => {
+      stdout.end();
+      stderr.end();
+      runLog.info('server', `Exited (${signal ?? `code ${code}`})`);
+    });
+
+    return port;
   }
 
-  async stop(): Promise<void> {
-    if (!this.serverProcess) {
+  private async serveStaticBuild(cwd: string, port: number): Promise<number> {
+    const config = getSettings();
+    const outputDir = path.resolve(cwd, config.get<string>('staticOutputDir', 'dist'));
+    if (!fs.existsSync(outputDir)) {
+      throw new Error(
+        `Build output ${outputDir} does not exist. Check visualRegression.staticOutputDir and visualRegression.staticBuildCommand.`
+      );
+    }
+    this.staticServer = await startStaticServer(outputDir, port, config.get<boolean>('staticSpaFallback', true));
+    this.serverPort = port;
+    return port;
+  }
+
+  private readyUrl(profile: ResolvedServerProfile, port: number): string {
+    return (profile.readyUrl || `http://localhost:${port}/`).replaceAll('{port}', String(port));
+  }
+
+  /**
+   * Runs a setup command in its own process group, so a cancelled run
+   * stops it and everything it spawned. Rejects with its last output on a
+   * non-zero exit.
+   */
+  private async runToCompletion(
+    source: string,
+    command: string,
+    cwd: string,
+    env: NodeJS.ProcessEnv,
+    signal?: AbortSignal
+  ): Promise<void> {
+    throwIfCancelled(signal);
+    const runLog = RunLog.get();
+    runLog.info(source, `$ ${command} (in ${cwd})`);
+    this.recentOutput = [];
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, { cwd, env, shell: true, detached: true });
+      const stdout = runLog.lineWriter(source);
+      const stderr = runLog.lineWriter(source, 'warn');
+      child.stdout?.on('data', (data: Buffer) => {
+        stdout.write(data);
+        this.recordOutput(String(data));
+      });
+      child.stderr?.on('data', (data: Buffer) => {
+        stderr.write(data);
+        this.recordOutput(String(data));
+      });
+
+      const onAbort = () => {
+        if (child.pid) {
+          killProcessGroup(child.pid);
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      child.on('error', (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      });
+      child.on('close', (code) => {
+        signal?.removeEventListener('abort', onAbort);
+        stdout.end();
+        stderr.end();
+        if (signal?.aborted) {
+          reject(new CancelledError());
+        } else if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`"${command}" exited with code ${code}.` + this.formatRecentOutput()));
+        }
+      });
+    });
+  }
+
+  /**
+   * Resolves once the server answers the readiness URL with the expected
+   * status, or prints a line matching the configured ready pattern.
+   * Rejects straight away if the server process exits first.
+   */
+  async waitUntilReady(port: number, signal?: AbortSignal): Promise<void> {
+    const profile = this.profile ?? resolveServerProfile(getSettings(), 'feature');
+    const readyUrl = this.readyUrl(profile, port);
+    const expectedStatus = profile.readyStatus;
+    const timeout = profile.readyTimeout;
+    const readyPattern = profile.readyPattern ? new RegExp(profile.readyPattern) : null;
+
+    // The static server is listening as soon as it has started
+    if (this.staticServer) {
       return;
     }
 
-    return new Promise((resolve) => {
-      if (!this.serverProcess) {
-        resolve();
+    const serverProcess = this.serverProcess;
+    if (!serverProcess) {
+      throw new Error('Dev server has not been started');
+    }
+    if (serverProcess.exitCode !== null) {
+      throw this.exitedError(serverProcess.exitCode);
+    }
+    throwIfCancelled(signal);
+
+    RunLog.get().debug('server', `Waiting for ${readyUrl} to return ${expectedStatus}`);
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      let pollTimer: NodeJS.Timeout | undefined;
+      let pollInterval = 250;
+
+      const finish = (error?: Error) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(pollTimer);
+        clearTimeout(deadline);
+        serverProcess.off('exit', onExit);
+        serverProcess.stdout?.off('data', onData);
+        signal?.removeEventListener('abort', onAbort);
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+
+      const onExit = (code: number | null) => finish(this.exitedError(code));
+
+      const onAbort = () => finish(new CancelledError());
+
+      const onData = (data: Buffer | string) => {
+        if (readyPattern?.test(String(data))) {
+          RunLog.get().info('server', 'Ready (pattern matched in server output)');
+          finish();
+        }
+      };
+
+      const deadline = setTimeout(() => {
+        finish(new Error(
+          `Dev server did not become ready within ${timeout}ms (waiting for ${readyUrl} to return ${expectedStatus}).` +
+          this.formatRecentOutput()
+        ));
+      }, timeout);
+
+      const poll = async () => {
+        const status = await this.probe(readyUrl);
+        if (settled) {
+          return;
+        }
+        if (status === expectedStatus) {
+          RunLog.get().info('server', `Ready (${readyUrl} returned ${status})`);
+          finish();
+          return;
+        }
+        pollTimer = setTimeout(poll, pollInterval);
+        pollInterval = Math.min(pollInterval * 2, MAX_POLL_INTERVAL);
+      };
+
+      serverProcess.once('exit', onExit);
+      serverProcess.stdout?.on('data', onData);
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // The pattern may already have been printed before we started listening
+      if (readyPattern?.test(this.recentOutput.join('\n'))) {
+        finish();
         return;
       }
+      poll();
+    });
+  }
 
-      this.serverProcess.on('exit', () => {
-        this.serverProcess = null;
-        resolve();
+  private probe(url: string): Promise<number | undefined> {
+    const client = url.startsWith('https:') ? https : http;
+    return new Promise((resolve) => {
+      const request = client.get(url, { timeout: MAX_POLL_INTERVAL }, (response) => {
+        response.resume();
+        resolve(response.statusCode);
       });
+      request.on('timeout', () => request.destroy());
+      request.on('error', () => resolve(undefined));
+    });
+  }
 
-      // Kill the process and its children
-      if (this.serverProcess.pid) {
-        try {
-          process.kill(-this.serverProcess.pid);
-        } catch {
-          // Process might already be dead - ignore error
-          this.serverProcess.kill();
-        }
+  private recordOutput(data: string): void {
+    const lines = data.split(/\r?\n/).filter(line => line.trim().length > 0);
+    this.recentOutput.push(...lines);
+    if (this.recentOutput.length > MAX_OUTPUT_LINES) {
+      this.recentOutput = this.recentOutput.slice(-MAX_OUTPUT_LINES);
+    }
+  }
+
+  private formatRecentOutput(): string {
+    if (this.recentOutput.length === 0) {
+      return '';
+    }
+    return `\n\nLast server output:\n${this.recentOutput.join('\n')}`;
+  }
+
+  private exitedError(code: number | null): Error {
+    return new Error(
+      `Dev server exited with code ${code} before it was ready.` + this.formatRecentOutput()
+    );
+  }
+
+  async stop(): Promise<void> {
+    if (this.staticServer) {
+      const staticServer = this.staticServer;
+      this.staticServer = null;
+      // Drop keep-alive connections from the browser so close() can finish
+      staticServer.closeAllConnections();
+      await new Promise(resolve => staticServer.close(resolve));
+    }
+    if (!this.serverProcess) {
+      return;
+    }
+
+    const serverProcess = this.serverProcess;
+    this.serverProcess = null;
+
+    // Kill the process and its children
+    if (!serverProcess.pid || !killProcessGroup(serverProcess.pid)) {
+      // Process might already be dead - fall back to the process itself
+      serverProcess.kill();
+    }
+
+    // A server that ignores or traps SIGTERM would hang the run and hold the port
+    if (!(await this.waitForExit(serverProcess, STOP_TIMEOUT))) {
+      RunLog.get().log('warn', 'server', `Dev server did not stop within ${STOP_TIMEOUT / 1000}s, sending SIGKILL`);
+      if (!serverProcess.pid || !killProcessGroup(serverProcess.pid, 'SIGKILL')) {
+        serverProcess.kill('SIGKILL');
       }
-    });
+      await this.waitForExit(serverProcess, STOP_TIMEOUT);
+    }
+  }
+
+  /** Resolves true once the process and everything left in its group have exited */
+  private async waitForExit(serverProcess: ChildProcess, timeout: number): Promise<boolean> {
+    const deadline = Date.now() + timeout;
+    const running = () => (serverProcess.exitCode === null && serverProcess.signalCode === null)
+      || (serverProcess.pid !== undefined && killProcessGroup(serverProcess.pid, 0));
+    while (running()) {
+      if (Date.now() >= deadline) {
+        return false;
+      }
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    return true;
   }
 
-  async killPort(port: number): Promise<void> {
+  /**
+   * Whether a dev server journaled by an earlier session is still the
+   * process behind `pid`. After a reboot or PID reuse the PID can belong to
+   * anything, so the server's port must still be listening and, when the
+   * command is known, the process must still be running that command's program.
+   */
+  async isOrphanedServer(pid: number, port: number, command?: string): Promise<boolean> {
+    if (!(await this.isPortInUse(port))) {
+      return false;
+    }
+    if (!command) {
+      return true;
+    }
+    const program = command.trim().split(/\s+/)[0];
     try {
-      console.log(`[Server] Killing any process on port ${port}`);
-      await execAsync(`lsof -ti:${port} | xargs kill -9 2>/dev/null || true`);
-      console.log(`[Server] Port ${port} cleared`);
+      const { stdout } = await execFileAsync('ps', ['-o', 'args=', '-p', String(pid)]);
+      return stdout.includes(program);
     } catch {
-      // Port already free or command failed - that's fine
-      console.log(`[Server] Port ${port} is free`);
+      // ps exits non-zero when the process is gone
+      return false;
+    }
+  }
+
+  /**
+   * Waits for a stopped server's port to stop accepting connections. Only
+   * our own process group is ever killed, so a port held by something else
+   * is reported rather than forced free.
+   */
+  async waitForPortRelease(port: number, timeout: number = PORT_RELEASE_TIMEOUT): Promise<boolean> {
+    const deadline = Date.now() + timeout;
+    while (await this.isPortInUse(port)) {
+      if (Date.now() >= deadline) {
+        RunLog.get().log('warn', 'server', `Port ${port} is still in use`);
+        return false;
+      }
+      await new Promise(resolve => setTimeout(resolve, 250));
     }
+    RunLog.get().debug('server', `Port ${port} is free`);
+    return true;
   }
 }
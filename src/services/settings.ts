@@ -0,0 +1,31 @@
+/**
+ * Read access to the visualRegression.* settings. vscode.WorkspaceConfiguration
+ * satisfies it, so the services run unchanged inside VS Code and from the CLI.
+ */
+export interface Settings {
+  get<T>(key: string, defaultValue: T): T;
+}
+
+/** Settings from a plain object, e.g. a parsed config file; missing keys fall back to their defaults */
+export function settingsFromObject(values: Record<string, unknown>): Settings {
+  return {
+    get<T>(key: string, defaultValue: T): T {
+      return values[key] === undefined ? defaultValue : (values[key] as T);
+    },
+  };
+}
+
+let source: () => Settings = () => settingsFromObject({});
+
+/**
+ * Where services read their settings from. The extension points this at the
+ * workspace configuration on activation, the CLI at its config file.
+ */
+export function setSettingsSource(read: () => Settings): void {
+  source = read;
+}
+
+/** The current settings; read again on every call so edits apply to the next run */
+export function getSettings(): Settings {
+  return source();
+}
@@ -0,0 +1,178 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { GitService } from './gitService';
+import { JSON_RESULTS_PATH, snapshotNameForUrl } from './playwrightService';
+import { RunLog } from './runLog';
+
+export interface SnapshotDiff {
+  /** Screenshot name without extension, e.g. `about` */
+  name: string;
+  /** Playwright's per-test output folder inside test-results */
+  resultDir: string;
+  actual: string;
+  expected?: string;
+  diff?: string;
+  /** Committed baseline inside a `*.spec.ts-snapshots` folder, if found */
+  baseline?: string;
+  /** Where Playwright expects the baseline of a new screenshot, which has none yet */
+  newBaseline?: string;
+}
+
+const PLATFORMS = ['linux', 'darwin', 'win32'];
+
+/** Playwright's error for a screenshot without a baseline names the path it expected */
+const MISSING_SNAPSHOT_PATTERN = /A snapshot doesn't exist at (.+?\.png)/g;
+
+export class SnapshotService {
+  constructor(
+    private readonly workspaceRoot: string,
+    private readonly testPath: string,
+    private readonly gitService: GitService,
+  ) {}
+
+  /**
+   * Collects every failed screenshot comparison left in test-results,
+   * pairing each actual image with its expected, diff and baseline files.
+   */
+  findDiffs(): SnapshotDiff[] {
+    const diffs: SnapshotDiff[] = [];
+    const snapshotFiles = this.listSnapshotFiles();
+    const missingSnapshots = this.listMissingSnapshots();
+
+    for (const actual of this.findFiles(path.join(this.workspaceRoot, 'test-results'), '-actual.png')) {
+      const resultDir = path.dirname(actual);
+      const name = path.basename(actual).slice(0, -'-actual.png'.length);
+      const expected = path.join(resultDir, `${name}-expected.png`);
+      const diff = path.join(resultDir, `${name}-diff.png`);
+
+      const baseline = this.findBaseline(name, path.basename(resultDir), snapshotFiles);
+      diffs.push({
+        name,
+        resultDir,
+        actual,
+        expected: fs.existsSync(expected) ? expected : undefined,
+        diff: fs.existsSync(diff) ? diff : undefined,
+        baseline,
+        newBaseline: baseline ? undefined : this.findBaseline(name, path.basename(resultDir), missingSnapshots),
+      });
+    }
+
+    return diffs.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * `cells` are the matrix cell names, so every viewport/scheme/locale
+   * variant is included, along with element screenshots (`<name>--<element>`).
+   */
+  findDiffsForUrl(urlPath: string, cells: string[] = ['']): SnapshotDiff[] {
+    const names = cells.map(cell => snapshotNameForUrl(urlPath, cell));
+    return this.findDiffs().filter(diff =>
+      names.some(name => diff.name === name || diff.name.startsWith(`${name}--`))
+    );
+  }
+
+  /**
+   * Promotes the actual screenshot to the baseline, stages it and clears the
+   * comparison output so it is no longer listed as a difference. A new
+   * screenshot becomes the baseline at the path Playwright expected it.
+   */
+  async accept(diff: SnapshotDiff): Promise<string> {
+    const baseline = diff.baseline ?? diff.newBaseline;
+    if (!baseline) {
+      throw new Error(`No baseline found for ${diff.name} in ${this.testPath}`);
+    }
+
+    RunLog.get().debug('snapshots', `Accepting ${diff.actual} as ${baseline}`);
+    await fs.promises.mkdir(path.dirname(baseline), { recursive: true });
+    await fs.promises.copyFile(diff.actual, baseline);
+    await this.gitService.stageFiles(path.relative(this.workspaceRoot, baseline));
+
+    for (const file of [diff.actual, diff.expected, diff.diff]) {
+      if (file) {
+        await fs.promises.rm(file, { force: true });
+      }
+    }
+    return baseline;
+  }
+
+  /**
+   * Identifies one particular comparison result, so a rejection does not
+   * carry over to the next run that writes the same file.
+   */
+  reviewKey(diff: SnapshotDiff): string {
+    const mtime = fs.existsSync(diff.actual) ? fs.statSync(diff.actual).mtimeMs : 0;
+    return `${diff.actual}@${mtime}`;
+  }
+
+  private listSnapshotFiles(): string[] {
+    const files: string[] = [];
+    const walk = (dir: string, inSnapshots: boolean) => {
+      if (!fs.existsSync(dir)) {
+        return;
+      }
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          walk(entryPath, inSnapshots || entry.name.endsWith('-snapshots'));
+        } else if (inSnapshots && entry.name.endsWith('.png')) {
+          files.push(entryPath);
+        }
+      }
+    };
+    walk(path.join(this.workspaceRoot, this.testPath), false);
+    return files;
+  }
+
+  /** Baseline paths the last run reported as missing, read from its JSON results */
+  private listMissingSnapshots(): string[] {
+    const resultsFile = path.join(this.workspaceRoot, JSON_RESULTS_PATH);
+    if (!fs.existsSync(resultsFile)) {
+      return [];
+    }
+    const text = fs.readFileSync(resultsFile, 'utf8');
+    // Paths are still JSON-escaped (e.g. Windows backslashes) inside the raw text
+    return [...new Set([...text.matchAll(MISSING_SNAPSHOT_PATTERN)].map(match => JSON.parse(`"${match[1]}"`) as string))];
+  }
+
+  /**
+   * Playwright names baselines `{name}{-project}{-platform}.png`. Prefer the
+   * candidate whose project matches the test-results folder's suffix.
+   */
+  private findBaseline(name: string, resultDirName: string, snapshotFiles: string[]): string | undefined {
+    const candidates = snapshotFiles.filter((file) => {
+      const base = path.basename(file, '.png');
+      if (base === name) {
+        return true;
+      }
+      if (!base.startsWith(`${name}-`)) {
+        return false;
+      }
+      const segments = base.slice(name.length + 1).split('-');
+      return PLATFORMS.includes(segments[segments.length - 1]);
+    });
+
+    const projectMatch = candidates.find((file) => {
+      const segments = path.basename(file, '.png').slice(name.length + 1).split('-');
+      const project = segments.slice(0, -1).join('-');
+      return project.length > 0 && resultDirName.endsWith(`-${project}`);
+    });
+
+    return projectMatch ?? candidates[0];
+  }
+
+  private findFiles(dir: string, suffix: string): string[] {
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...this.findFiles(entryPath, suffix));
+      } else if (entry.name.endsWith(suffix)) {
+        files.push(entryPath);
+      }
+    }
+    return files;
+  }
+}
@@ -0,0 +1,113 @@
+import * as fs from 'node:fs';
+import * as http from 'node:http';
+import * as path from 'node:path';
+import { RunLog } from './runLog';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.map': 'application/json; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.xml': 'application/xml; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.wasm': 'application/wasm',
+};
+
+/**
+ * Serves a production build from `root`. A path resolves to the file itself,
+ * then `<path>.html`, then `<path>/index.html`. With `spaFallback`, other
+ * page requests get the root index.html so client-side routing can take over.
+ */
+export function startStaticServer(root: string, port: number, spaFallback: boolean): Promise<http.Server> {
+  const server = http.createServer((request, response) => {
+    const pathname = decodePath(new URL(request.url ?? '/', 'http://localhost').pathname);
+    const file = resolveFile(root, pathname)
+      ?? (spaFallback && !path.extname(pathname) ? existingFile(path.join(root, 'index.html')) : undefined);
+
+    RunLog.get().debug('server', `${request.method} ${pathname} → ${file ? path.relative(root, file) : 404}`);
+    if (!file) {
+      const notFoundPage = existingFile(path.join(root, '404.html'));
+      response.writeHead(404, { 'Content-Type': CONTENT_TYPES['.html'] });
+      response.end(notFoundPage ? fs.readFileSync(notFoundPage) : 'Not found');
+      return;
+    }
+
+    const headers = {
+      'Content-Type': CONTENT_TYPES[path.extname(file).toLowerCase()] ?? 'application/octet-stream',
+      'Cache-Control': 'no-store',
+    };
+    if (request.method === 'HEAD') {
+      response.writeHead(200, headers);
+      response.end();
+      return;
+    }
+    // The file can vanish or become unreadable after the stat above
+    const stream = fs.createReadStream(file);
+    stream.on('open', () => {
+      response.writeHead(200, headers);
+      stream.pipe(response);
+    });
+    stream.on('error', (error: NodeJS.ErrnoException) => {
+      RunLog.get().log('warn', 'server', `Could not read ${file}: ${error.message}`);
+      if (response.headersSent) {
+        response.destroy(error);
+        return;
+      }
+      response.writeHead(error.code === 'ENOENT' ? 404 : 500, { 'Content-Type': CONTENT_TYPES['.txt'] });
+      response.end(error.code === 'ENOENT' ? 'Not found' : 'Could not read file');
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, () => {
+      server.off('error', reject);
+      RunLog.get().info('server', `Serving ${root} on port ${port}`);
+      resolve(server);
+    });
+  });
+}
+
+function decodePath(pathname: string): string {
+  try {
+    return decodeURIComponent(pathname);
+  } catch {
+    // Malformed escapes are looked up as written
+    return pathname;
+  }
+}
+
+function resolveFile(root: string, pathname: string): string | undefined {
+  const target = path.join(root, pathname);
+  // Never serve anything outside the build output
+  if (target !== root && !target.startsWith(root + path.sep)) {
+    return undefined;
+  }
+  return existingFile(target)
+    ?? existingFile(`${target.replace(/[\\/]$/, '')}.html`)
+    ?? existingFile(path.join(target, 'index.html'));
+}
+
+function existingFile(file: string): string | undefined {
+  try {
+    return fs.statSync(file).isFile() ? file : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,229 @@
+export interface SpecTemplateOptions {
+  importPath: string;
+  waitForSelector: string;
+}
+
+/**
+ * The `pages.spec.ts` written by "Create Template". Everything it varies on
+ * per run (URLs, matrix, per-route options from settings and the manifest)
+ * arrives through environment variables set by PlaywrightService, so the
+ * same file serves baseline and feature runs.
+ */
+export function buildPagesSpec({ importPath, waitForSelector }: SpecTemplateOptions): string {
+  const selectorLiteral = waitForSelector.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+
+  return `import { test, expect } from '${importPath}';
+import * as fs from 'fs';
+
+// Authentication bypass is handled via environment variables
+// Example: NEXT_PUBLIC_PLAYWRIGHT=true to bypass Auth0
+// Configure in VS Code settings: visualRegression.environmentVariables
+
+// Loading indicator to wait for disappearing (visualRegression.waitForSelector)
+const defaultWaitForSelector = '${selectorLiteral}';
+
+// Get URLs from environment variable (comma-separated for multiple URLs)
+const testUrls = process.env.TEST_URLS
+  ? process.env.TEST_URLS.split(',')
+  : [process.env.TEST_URL || 'http://localhost:3000/'];
+
+// Auth role / viewport / color scheme / locale combinations (visualRegression.authRoles,
+// viewports, colorSchemes and locales). Browsers are projects in playwright.config.ts.
+// A role's cell reuses the storage state saved by its login step.
+type MatrixCell = {
+  name: string;
+  use: {
+    viewport?: { width: number; height: number };
+    colorScheme?: 'light' | 'dark';
+    locale?: string;
+    storageState?: string;
+  };
+};
+const cells: MatrixCell[] = process.env.VISUAL_REGRESSION_MATRIX
+  ? JSON.parse(process.env.VISUAL_REGRESSION_MATRIX)
+  : [{ name: '', use: {} }];
+
+// Per-route options keyed by URL path: masks, hidden selectors, ignore regions
+// and diff thresholds from settings, plus entries from visual-regression.json
+type RouteOptions = {
+  mask?: string[];
+  hide?: string[];
+  ignoreRegions?: { x: number; y: number; width: number; height: number }[];
+  thresholds?: { maxDiffPixels?: number; maxDiffPixelRatio?: number; threshold?: number };
+  waitForSelector?: string;
+  screenshots?: { name: string; selector: string }[];
+  actions?: { type: 'click' | 'hover' | 'fill' | 'scroll'; selector?: string; value?: string; x?: number; y?: number }[];
+  viewport?: { width: number; height: number };
+};
+const routeOptions: Record<string, RouteOptions> = process.env.VISUAL_REGRESSION_ROUTES
+  ? JSON.parse(process.env.VISUAL_REGRESSION_ROUTES)
+  : {};
+
+// Network replay (visualRegression.networkReplay): the baseline run records matching
+// requests to a HAR per page, the feature run answers them from that recording
+const harMode = process.env.VISUAL_REGRESSION_HAR_MODE as 'record' | 'replay' | undefined;
+const harDir = process.env.VISUAL_REGRESSION_HAR_DIR;
+const harUrl = process.env.VISUAL_REGRESSION_HAR_URL || '**/*';
+
+// Page stabilization (visualRegression.stabilizePage), applied the same way to
+// baseline and feature captures
+type Stabilization = {
+  animations?: boolean;
+  videos?: boolean;
+  caret?: boolean;
+  fonts?: boolean;
+  time?: string;
+  timezone?: string;
+  randomSeed?: number;
+};
+const stabilize: Stabilization = process.env.VISUAL_REGRESSION_STABILIZE
+  ? JSON.parse(process.env.VISUAL_REGRESSION_STABILIZE)
+  : {};
+
+for (const cell of cells) {
+  test.describe(cell.name || 'default', () => {
+    test.use(stabilize.timezone ? { ...cell.use, timezoneId: stabilize.timezone } : cell.use);
+
+    // Generate a test for each URL
+    for (const testUrl of testUrls) {
+      test(\`visual test for \${testUrl}\${cell.name ? \` [\${cell.name}]\` : ''}\`, async ({ page }, testInfo) => {
+        const options = routeOptions[testUrl.slice(new URL(testUrl).origin.length)] ?? {};
+
+        // Generate unique filename from URL path and matrix cell
+        const urlPath = new URL(testUrl).pathname;
+        const filename = (urlPath
+          .replace(/^\\//, '') // Remove leading slash
+          .replace(/\\//g, '-') // Replace slashes with hyphens
+          .replace(/[^a-zA-Z0-9-_]/g, '_') // Replace special chars with underscores
+          || 'homepage') // Default name for root path
+          + (cell.name ? \`-\${cell.name}\` : '');
+
+        if (harMode && harDir) {
+          const harPath = \`\${harDir}/\${testInfo.project.name || 'default'}/\${filename}.har\`;
+          // Pages new on the feature branch have no recording and use the live server
+          if (harMode === 'record' || fs.existsSync(harPath)) {
+            await page.routeFromHAR(harPath, {
+              url: harUrl,
+              update: harMode === 'record',
+              updateContent: 'embed',
+              notFound: 'fallback',
+            });
+          }
+        }
+
+        if (stabilize.time) {
+          await page.clock.setFixedTime(stabilize.time);
+        }
+        if (stabilize.randomSeed !== undefined) {
+          // Seeded Park-Miller generator so "random" content repeats between runs
+          await page.addInitScript((seed) => {
+            let state = Math.abs(Math.floor(seed)) % 2147483646 + 1;
+            Math.random = () => {
+              state = (state * 16807) % 2147483647;
+              return (state - 1) / 2147483646;
+            };
+          }, stabilize.randomSeed);
+        }
+
+        if (options.viewport) {
+          await page.setViewportSize(options.viewport);
+        }
+        await page.goto(testUrl);
+
+        const waitForSelector = options.waitForSelector ?? defaultWaitForSelector;
+        if (waitForSelector) {
+          // Wait for loading indicator to disappear
+          await page.waitForFunction((selector) => {
+            const noLoading = !document.querySelector(selector);
+            return document.readyState === 'complete' && noLoading;
+          }, waitForSelector);
+        } else {
+          // Wait for the page to be fully loaded
+          await page.waitForLoadState('networkidle');
+        }
+
+        // Bring the page into the state to capture
+        for (const action of options.actions ?? []) {
+          if (action.type === 'click') {
+            await page.locator(action.selector!).click();
+          } else if (action.type === 'hover') {
+            await page.locator(action.selector!).hover();
+          } else if (action.type === 'fill') {
+            await page.locator(action.selector!).fill(action.value ?? '');
+          } else if (action.selector) {
+            await page.locator(action.selector).scrollIntoViewIfNeeded();
+          } else {
+            await page.evaluate(({ x, y }) => window.scrollTo(x, y), { x: action.x ?? 0, y: action.y ?? 0 });
+          }
+        }
+
+        if (stabilize.videos) {
+          await page.evaluate(() => document.querySelectorAll('video').forEach((video) => {
+            video.pause();
+            video.currentTime = 0;
+          }));
+        }
+        if (stabilize.fonts) {
+          await page.evaluate(() => document.fonts.ready.then(() => undefined));
+        }
+
+        // Cover pixel regions that no selector can target
+        if (options.ignoreRegions?.length) {
+          await page.evaluate((regions) => {
+            for (const region of regions) {
+              const box = document.createElement('div');
+              box.style.cssText = \`position:absolute;left:\${region.x}px;top:\${region.y}px;\` +
+                \`width:\${region.width}px;height:\${region.height}px;background:#FF00FF;z-index:2147483647\`;
+              document.body.appendChild(box);
+            }
+          }, options.ignoreRegions);
+        }
+
+        const screenshotOptions = {
+          mask: (options.mask ?? []).map(selector => page.locator(selector)),
+          style: (options.hide ?? []).map(selector => \`\${selector} { visibility: hidden !important; }\`).join('\\n'),
+          ...(stabilize.animations ? { animations: 'disabled' as const } : {}),
+          ...(stabilize.caret ? { caret: 'hide' as const } : {}),
+          ...options.thresholds,
+        };
+
+        if (options.screenshots?.length) {
+          // Element-only screenshots from the manifest replace the full page
+          for (const screenshot of options.screenshots) {
+            await expect(page.locator(screenshot.selector)).toHaveScreenshot(
+              \`\${filename}--\${screenshot.name}.png\`,
+              screenshotOptions
+            );
+          }
+        } else {
+          await expect(page).toHaveScreenshot(\`\${filename}.png\`, { fullPage: true, ...screenshotOptions });
+        }
+      });
+    }
+  });
+}
+`;
+}
+
+/**
+ * A minimal playwright.config.ts with one project per browser listed in
+ * VISUAL_REGRESSION_BROWSERS (visualRegression.browsers).
+ */
+export function buildPlaywrightConfig(testPath: string): string {
+  return `import { defineConfig } from '@playwright/test';
+
+const browsers = (process.env.VISUAL_REGRESSION_BROWSERS || 'chromium').split(',');
+
+export default defineConfig({
+  testDir: './${testPath}',
+  reporter: [['html', { open: 'never' }]],
+  use: {
+    baseURL: process.env.TEST_URL || 'http://localhost:3000',
+  },
+  projects: browsers.map(browserName => ({
+    name: browserName,
+    use: { browserName: browserName as 'chromium' | 'firefox' | 'webkit' },
+  })),
+});
+`;
+}
@@ -0,0 +1,50 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { authStatePath } from '../services/authRoles';
+import { buildMatrix, configuredBrowsers } from '../services/captureMatrix';
+import { settingsFromObject } from '../services/settings';
+
+describe('buildMatrix', () => {
+  it('is a single unnamed cell when no matrix is configured', () => {
+    assert.deepEqual(buildMatrix(settingsFromObject({})), [{ name: '', use: {} }]);
+  });
+
+  it('expands every combination in role, viewport, color scheme, locale order', () => {
+    const config = settingsFromObject({
+      viewports: ['mobile', { name: 'wide', width: 1920, height: 1080 }, 'unknown-preset'],
+      colorSchemes: ['light', 'dark'],
+      locales: ['de-DE'],
+    });
+
+    const cells = buildMatrix(config);
+
+    assert.deepEqual(cells.map(cell => cell.name), [
+      'mobile-light-de-DE',
+      'mobile-dark-de-DE',
+      'wide-light-de-DE',
+      'wide-dark-de-DE',
+    ]);
+    assert.deepEqual(cells[3].use, { viewport: { width: 1920, height: 1080 }, colorScheme: 'dark', locale: 'de-DE' });
+  });
+
+  it('gives auth role cells a storage state only when there is a workspace', () => {
+    const config = settingsFromObject({
+      authRoles: [{ name: 'admin', setupScript: 'login.js' }, { name: 'viewer' }],
+      colorSchemes: ['dark'],
+    });
+
+    assert.deepEqual(buildMatrix(config), [{ name: 'admin-dark', use: { colorScheme: 'dark' } }]);
+    assert.deepEqual(buildMatrix(config, '/workspace'), [{
+      name: 'admin-dark',
+      use: { storageState: authStatePath('/workspace', 'admin'), colorScheme: 'dark' },
+    }]);
+  });
+});
+
+describe('configuredBrowsers', () => {
+  it('falls back to chromium when the list is missing or empty', () => {
+    assert.deepEqual(configuredBrowsers(settingsFromObject({})), ['chromium']);
+    assert.deepEqual(configuredBrowsers(settingsFromObject({ browsers: [] })), ['chromium']);
+    assert.deepEqual(configuredBrowsers(settingsFromObject({ browsers: ['firefox', 'webkit'] })), ['firefox', 'webkit']);
+  });
+});
@@ -0,0 +1,71 @@
+import * as assert from 'node:assert/strict';
+import { execSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { GitService, runTestFiles } from '../services/gitService';
+
+describe('GitService checkout-mode stash', () => {
+  let root: string;
+  let baseSha: string;
+  const git = (command: string) => execSync(`git ${command}`, { cwd: root, encoding: 'utf8' }).trim();
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.join(root, path.dirname(file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content);
+  };
+  const read = (file: string) => fs.readFileSync(path.join(root, file), 'utf8');
+
+  before(() => {
+    // stash and commit need an identity, which a CI machine may not have
+    for (const key of ['AUTHOR', 'COMMITTER']) {
+      process.env[`GIT_${key}_NAME`] = 'Test';
+      process.env[`GIT_${key}_EMAIL`] = 'test@example.com';
+    }
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'vrt-git-'));
+    git('init -q -b feature');
+    write('src/page.tsx', 'base');
+    write('playwright.config.ts', 'base config');
+    git('add -A');
+    git('commit -q -m base');
+    baseSha = git('rev-parse HEAD');
+    write('src/page.tsx', 'feature');
+    git('commit -q -am feature');
+  });
+
+  after(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('keeps an untracked spec and a modified config through the baseline checkout', async () => {
+    const gitService = new GitService(root);
+    const keepPaths = runTestFiles('tests/visual');
+    write('tests/visual/pages.spec.ts', 'new spec');
+    write('playwright.config.ts', 'edited config');
+    write('notes.txt', 'scratch');
+
+    assert.deepEqual(await gitService.getUncommittedChanges(keepPaths), ['notes.txt']);
+    const stashSha = await gitService.stash('before capturing main', keepPaths);
+    assert.notEqual(stashSha, '');
+
+    await gitService.checkout(baseSha, keepPaths);
+    assert.equal(read('src/page.tsx'), 'base');
+    assert.equal(read('tests/visual/pages.spec.ts'), 'new spec');
+    assert.equal(read('playwright.config.ts'), 'edited config');
+    assert.equal(fs.existsSync(path.join(root, 'notes.txt')), false);
+
+    await gitService.checkout('feature', keepPaths);
+    await gitService.unstash(stashSha);
+    assert.equal(read('src/page.tsx'), 'feature');
+    assert.equal(read('tests/visual/pages.spec.ts'), 'new spec');
+    assert.equal(read('playwright.config.ts'), 'edited config');
+    assert.equal(read('notes.txt'), 'scratch');
+  });
+
+  it('stashes nothing when only the test files changed', async () => {
+    const gitService = new GitService(root);
+    fs.rmSync(path.join(root, 'notes.txt'));
+
+    assert.equal(await gitService.stash('before capturing main', runTestFiles('tests/visual')), '');
+  });
+});
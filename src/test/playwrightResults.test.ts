@@ -0,0 +1,125 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parsePlaywrightReport } from '../services/playwrightResults';
+
+interface TestResult {
+  status: string;
+  duration: number;
+  errors?: { message?: string }[];
+  attachments?: { name: string; path?: string }[];
+}
+
+function spec(title: string, status: string, result: TestResult) {
+  return { title, tests: [{ projectName: 'chromium', status, results: [result] }] };
+}
+
+describe('parsePlaywrightReport', () => {
+  it('reads the URL path and matrix cell from the test title', () => {
+    const results = parsePlaywrightReport({
+      suites: [{
+        title: 'visual.spec.ts',
+        specs: [spec('http://localhost:3000/about?tab=team [mobile-dark]', 'expected', { status: 'passed', duration: 120 })],
+      }],
+    });
+
+    assert.equal(results.urls.length, 1);
+    assert.deepEqual(
+      { urlPath: results.urls[0].urlPath, cell: results.urls[0].cell, status: results.urls[0].status },
+      { urlPath: '/about?tab=team', cell: 'mobile-dark', status: 'passed' },
+    );
+    assert.equal(results.passed, 1);
+  });
+
+  it('reports changed screenshots with their attachments and pixel counts', () => {
+    const results = parsePlaywrightReport({
+      suites: [{
+        title: 'visual.spec.ts',
+        suites: [{
+          title: 'nested',
+          specs: [spec('http://localhost:3000/', 'unexpected', {
+            status: 'failed',
+            duration: 300,
+            errors: [{ message: '\u001b[31mScreenshot home.png: 1520 pixels (ratio 0.02 of all image pixels) are different.\u001b[39m' }],
+            attachments: [
+              { name: 'home-expected.png', path: '/results/home-expected.png' },
+              { name: 'home-actual.png', path: '/results/home-actual.png' },
+              { name: 'home-diff.png', path: '/results/home-diff.png' },
+            ],
+          })],
+        }],
+      }],
+    });
+
+    const [url] = results.urls;
+    assert.equal(url.status, 'changed');
+    assert.deepEqual(url.snapshots, [{
+      name: 'home',
+      projectName: 'chromium',
+      status: 'changed',
+      expected: '/results/home-expected.png',
+      actual: '/results/home-actual.png',
+      diff: '/results/home-diff.png',
+      diffPixels: 1520,
+      diffRatio: 0.02,
+    }]);
+    assert.equal(results.changed, 1);
+  });
+
+  it('treats a screenshot with only an actual image as missing', () => {
+    const results = parsePlaywrightReport({
+      suites: [{
+        title: 'visual.spec.ts',
+        specs: [spec('http://localhost:3000/new', 'unexpected', {
+          status: 'failed',
+          duration: 80,
+          errors: [{ message: "A snapshot doesn't exist at /snapshots/new.png, writing actual." }],
+          attachments: [{ name: 'new-actual.png', path: '/results/new-actual.png' }],
+        })],
+      }],
+    });
+
+    assert.equal(results.urls[0].status, 'missing');
+    assert.equal(results.urls[0].snapshots[0].status, 'missing');
+    assert.equal(results.changed, 1);
+  });
+
+  it('uses the last attempt and keeps the error of a failure without screenshots', () => {
+    const results = parsePlaywrightReport({
+      suites: [{
+        title: 'visual.spec.ts',
+        specs: [{
+          title: 'http://localhost:3000/broken',
+          tests: [{
+            projectName: 'chromium',
+            status: 'unexpected',
+            results: [
+              { status: 'failed', duration: 10, errors: [{ message: 'first attempt' }] },
+              { status: 'failed', duration: 20, errors: [{ message: 'page.goto: net::ERR_CONNECTION_REFUSED' }] },
+            ],
+          }],
+        }],
+      }],
+    });
+
+    const [url] = results.urls;
+    assert.equal(url.status, 'failed');
+    assert.equal(url.duration, 20);
+    assert.equal(url.error, 'page.goto: net::ERR_CONNECTION_REFUSED');
+    assert.equal(results.failed, 1);
+  });
+
+  it('counts flaky tests as passed and skipped tests as neither', () => {
+    const results = parsePlaywrightReport({
+      suites: [{
+        title: 'visual.spec.ts',
+        specs: [
+          spec('http://localhost:3000/flaky', 'flaky', { status: 'passed', duration: 10 }),
+          spec('http://localhost:3000/skipped', 'skipped', { status: 'skipped', duration: 0 }),
+        ],
+      }],
+    });
+
+    assert.deepEqual(results.urls.map(url => url.status), ['passed', 'skipped']);
+    assert.deepEqual({ passed: results.passed, changed: results.changed, failed: results.failed }, { passed: 1, changed: 0, failed: 0 });
+  });
+});
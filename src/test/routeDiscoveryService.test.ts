@@ -0,0 +1,137 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, describe, it } from 'node:test';
+import { ALL_ROUTES, DiscoveredRoute, RouteDiscoveryService } from '../services/routeDiscoveryService';
+
+const workspaces: string[] = [];
+
+/** A throwaway workspace holding empty files at the given relative paths */
+function workspace(files: string[]): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'vrt-routes-'));
+  workspaces.push(root);
+  for (const file of files) {
+    fs.mkdirSync(path.join(root, path.dirname(file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), '');
+  }
+  return root;
+}
+
+after(() => {
+  workspaces.forEach(root => fs.rmSync(root, { recursive: true, force: true }));
+});
+
+describe('RouteDiscoveryService.discover', () => {
+  it('finds Next.js app router pages, skipping groups, private folders and parallel routes', () => {
+    const root = workspace([
+      'app/page.tsx',
+      'app/layout.tsx',
+      'app/(marketing)/about/page.tsx',
+      'app/_components/page.tsx',
+      'app/@modal/login/page.tsx',
+      'app/blog/[slug]/page.mdx',
+    ]);
+
+    const { routes, unresolved } = new RouteDiscoveryService(root).discover([], {});
+
+    assert.deepEqual(routes.map(route => [route.path, route.file]), [
+      ['/', 'app/page.tsx'],
+      ['/about', 'app/(marketing)/about/page.tsx'],
+    ]);
+    assert.deepEqual(unresolved, ['/blog/[slug]']);
+  });
+
+  it('fills dynamic segments from routeParams and drops empty optional catch-alls', () => {
+    const root = workspace(['app/blog/[slug]/page.tsx', 'app/docs/[[...path]]/page.tsx']);
+
+    const { routes } = new RouteDiscoveryService(root).discover([], { slug: 'hello-world' });
+
+    assert.deepEqual(routes.map(route => [route.path, route.pattern]), [
+      ['/blog/hello-world', '/blog/[slug]'],
+      ['/docs', '/docs/[[...path]]'],
+    ]);
+  });
+
+  it('finds pages router, SvelteKit and Remix routes', () => {
+    const root = workspace([
+      'pages/index.tsx',
+      'pages/_app.tsx',
+      'pages/api/hello.ts',
+      'pages/pricing.tsx',
+      'src/routes/+page.svelte',
+      'src/routes/contact/+page.svelte',
+      'src/routes/contact/+page.server.ts',
+      'app/routes/_index.tsx',
+      'app/routes/blog.$slug.tsx',
+      'app/routes/_auth.login.tsx',
+    ]);
+
+    const { routes } = new RouteDiscoveryService(root).discover([], { slug: 'first' });
+
+    assert.deepEqual(routes.map(route => [route.path, route.source]), [
+      ['/', 'next-pages'],
+      ['/blog/first', 'remix'],
+      ['/contact', 'sveltekit'],
+      ['/login', 'remix'],
+      ['/pricing', 'next-pages'],
+    ]);
+  });
+
+  it('gives configured and manifest paths the file that defines them', () => {
+    const root = workspace(['app/page.tsx', 'app/about/page.tsx']);
+
+    const { routes } = new RouteDiscoveryService(root).discover(
+      ['/', '/legacy'],
+      {},
+      [{ path: '/about', name: 'About us' }],
+    );
+
+    assert.deepEqual(routes, [
+      { path: '/', pattern: '/', source: 'next-app', file: 'app/page.tsx' },
+      { path: '/about', pattern: '/about', source: 'manifest', name: 'About us', file: 'app/about/page.tsx' },
+      { path: '/legacy', pattern: '/legacy', source: 'config' },
+    ]);
+  });
+});
+
+describe('RouteDiscoveryService.affectedRoutes', () => {
+  const routes: DiscoveredRoute[] = [
+    { path: '/', pattern: '/', source: 'next-app', file: 'app/page.tsx' },
+    { path: '/about', pattern: '/about', source: 'next-app', file: 'app/about/page.tsx' },
+    { path: '/about/team', pattern: '/about/team', source: 'next-app', file: 'app/about/team/page.tsx' },
+    { path: '/pricing', pattern: '/pricing', source: 'next-pages', file: 'pages/pricing.tsx' },
+  ];
+  const service = new RouteDiscoveryService(os.tmpdir());
+
+  it('maps the home page file to the home route only', () => {
+    const affected = service.affectedRoutes(['app/page.tsx'], routes, {});
+
+    assert.deepEqual(affected.routes, ['/']);
+    assert.deepEqual(affected.unmatched, []);
+  });
+
+  it('maps a layout to every app router route at or below its directory', () => {
+    assert.deepEqual(service.affectedRoutes(['app/layout.tsx'], routes, {}).routes, ['/', '/about', '/about/team']);
+    assert.deepEqual(service.affectedRoutes(['app/about/styles.css'], routes, {}).routes, ['/about', '/about/team']);
+  });
+
+  it('does not spread a page without a route of its own to its neighbours', () => {
+    const affected = service.affectedRoutes(['app/blog/[slug]/page.tsx'], routes, {});
+
+    assert.deepEqual(affected.routes, []);
+    assert.deepEqual(affected.unmatched, ['app/blog/[slug]/page.tsx']);
+  });
+
+  it('applies glob mappings and records why each route was picked', () => {
+    const affected = service.affectedRoutes(
+      ['styles/globals.css', 'components/pricing/Table.tsx', 'README.md'],
+      routes,
+      { 'styles/**': ALL_ROUTES, 'components/pricing/*.tsx': '/pricing' },
+    );
+
+    assert.deepEqual(affected.routes, ['/', '/about', '/about/team', '/pricing']);
+    assert.deepEqual(affected.reasons.get('/pricing'), ['styles/globals.css', 'components/pricing/Table.tsx']);
+    assert.deepEqual(affected.unmatched, ['README.md']);
+  });
+});
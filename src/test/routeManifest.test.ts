@@ -0,0 +1,87 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseRouteManifest } from '../services/routeManifest';
+
+const FILE = '/workspace/visual-regression.json';
+
+function messages(text: string): string[] {
+  return parseRouteManifest(text, FILE).problems.map(problem => `${problem.severity}: ${problem.message}`);
+}
+
+describe('parseRouteManifest', () => {
+  it('reads valid routes', () => {
+    const manifest = parseRouteManifest(JSON.stringify({
+      routes: [
+        { path: '/', name: 'Home' },
+        {
+          path: '/pricing',
+          waitForSelector: '.plans',
+          viewport: { width: 1280, height: 720 },
+          screenshots: [{ name: 'plans', selector: '.plans' }],
+          actions: [{ type: 'click', selector: '#yearly' }, { type: 'scroll', y: 400 }],
+        },
+      ],
+    }), FILE);
+
+    assert.deepEqual(manifest.problems, []);
+    assert.equal(manifest.file, FILE);
+    assert.deepEqual(manifest.routes.map(route => route.path), ['/', '/pricing']);
+    assert.deepEqual(manifest.routes[1].viewport, { width: 1280, height: 720 });
+    assert.deepEqual(manifest.routes[1].screenshots, [{ name: 'plans', selector: '.plans' }]);
+    assert.equal(manifest.routes[1].actions?.length, 2);
+  });
+
+  it('reports syntax errors at their offset and returns no routes', () => {
+    const text = '{ "routes": [ { "path" "/" } ] }';
+    const manifest = parseRouteManifest(text, FILE);
+
+    assert.deepEqual(manifest.routes, []);
+    assert.equal(manifest.problems[0].message, 'JSON syntax error: colon expected');
+    assert.equal(manifest.problems[0].start, text.indexOf('"/"'));
+  });
+
+  it('rejects trailing commas', () => {
+    assert.ok(messages('{ "routes": [], }').some(message => message.startsWith('error: JSON syntax error')));
+  });
+
+  it('needs a routes array', () => {
+    assert.deepEqual(messages('{ "pages": [] }'), ['error: Expected a "routes" array']);
+    assert.deepEqual(messages('[]'), ['error: Expected a "routes" array']);
+  });
+
+  it('drops invalid and duplicate routes but keeps the rest', () => {
+    const manifest = parseRouteManifest(JSON.stringify({
+      routes: [
+        { path: '/' },
+        { path: 'about' },
+        { name: 'No path' },
+        { path: '/', name: 'Again' },
+        { path: '/contact', color: 'blue' },
+      ],
+    }), FILE);
+
+    assert.deepEqual(manifest.routes.map(route => route.path), ['/', '/contact']);
+    assert.deepEqual(manifest.problems.map(problem => `${problem.severity}: ${problem.message}`), [
+      'error: Route path must start with "/"',
+      'error: Route needs a "path" string, e.g. "/about"',
+      'error: Duplicate route path "/"',
+      'warning: Unknown route property "color"',
+    ]);
+  });
+
+  it('validates screenshots, actions and viewports', () => {
+    assert.deepEqual(messages(JSON.stringify({
+      routes: [
+        { path: '/a', screenshots: [{ name: 'has space', selector: '.x' }] },
+        { path: '/b', actions: [{ type: 'fill', selector: '#email' }] },
+        { path: '/c', actions: [{ type: 'drag', selector: '#x' }] },
+        { path: '/d', viewport: { width: 0, height: 600 } },
+      ],
+    })), [
+      'error: Screenshot "name" must use only letters, digits, "-" and "_"',
+      'error: "fill" needs a "value" string',
+      'error: Action "type" must be one of: click, hover, fill, scroll',
+      'error: Viewport needs positive "width" and "height" numbers',
+    ]);
+  });
+});
@@ -0,0 +1,60 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { resolveRouteOptions } from '../services/routeOptions';
+import { settingsFromObject } from '../services/settings';
+
+describe('resolveRouteOptions', () => {
+  it('leaves out everything that is not configured', () => {
+    assert.deepEqual(resolveRouteOptions(settingsFromObject({}), ['/']), { '/': {} });
+  });
+
+  it('puts the global selectors before the route\'s own', () => {
+    const config = settingsFromObject({
+      mask: { '*': ['.clock'], '/about': ['.avatar'] },
+      hideSelectors: { '/about': ['.banner'] },
+      ignoreRegions: { '*': [{ x: 0, y: 0, width: 100, height: 20 }] },
+    });
+
+    const options = resolveRouteOptions(config, ['/', '/about']);
+
+    assert.deepEqual(options['/'], {
+      mask: ['.clock'],
+      ignoreRegions: [{ x: 0, y: 0, width: 100, height: 20 }],
+    });
+    assert.deepEqual(options['/about'], {
+      mask: ['.clock', '.avatar'],
+      hide: ['.banner'],
+      ignoreRegions: [{ x: 0, y: 0, width: 100, height: 20 }],
+    });
+  });
+
+  it('overrides global thresholds per route and drops unset ones', () => {
+    const config = settingsFromObject({
+      maxDiffPixels: 100,
+      maxDiffPixelRatio: null,
+      routeThresholds: { '/charts': { maxDiffPixels: 2000, threshold: 0.3 } },
+    });
+
+    const options = resolveRouteOptions(config, ['/', '/charts']);
+
+    assert.deepEqual(options['/'].thresholds, { maxDiffPixels: 100 });
+    assert.deepEqual(options['/charts'].thresholds, { maxDiffPixels: 2000, threshold: 0.3 });
+  });
+
+  it('adds the manifest options of the matching route', () => {
+    const options = resolveRouteOptions(settingsFromObject({}), ['/pricing', '/'], [{
+      path: '/pricing',
+      waitForSelector: '.plans',
+      viewport: { width: 800, height: 600 },
+      actions: [{ type: 'click', selector: '#yearly' }],
+      screenshots: [],
+    }]);
+
+    assert.deepEqual(options['/pricing'], {
+      waitForSelector: '.plans',
+      viewport: { width: 800, height: 600 },
+      actions: [{ type: 'click', selector: '#yearly' }],
+    });
+    assert.deepEqual(options['/'], {});
+  });
+});
@@ -0,0 +1,61 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { startStaticServer } from '../services/staticServer';
+
+/** Sends the path as written: fetch() would normalize the dot segments away */
+function get(port: number, requestPath: string): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    http.get({ port, path: requestPath }, (response) => {
+      let body = '';
+      response.on('data', (chunk: Buffer) => (body += chunk));
+      response.on('end', () => resolve({ status: response.statusCode ?? 0, body }));
+    }).on('error', reject);
+  });
+}
+
+describe('startStaticServer', () => {
+  let parent: string;
+  let server: http.Server;
+  let port: number;
+
+  before(async () => {
+    // The build output sits next to a file it must never serve
+    parent = fs.mkdtempSync(path.join(os.tmpdir(), 'vrt-static-'));
+    const root = path.join(parent, 'out');
+    fs.mkdirSync(path.join(root, 'about'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'index.html'), 'home');
+    fs.writeFileSync(path.join(root, 'pricing.html'), 'pricing');
+    fs.writeFileSync(path.join(root, 'about', 'index.html'), 'about');
+    fs.writeFileSync(path.join(parent, 'secret.txt'), 'secret');
+
+    server = await startStaticServer(root, 0, true);
+    port = (server.address() as AddressInfo).port;
+  });
+
+  after(() => {
+    server.close();
+    fs.rmSync(parent, { recursive: true, force: true });
+  });
+
+  it('resolves the file, then .html, then index.html', async () => {
+    assert.deepEqual(await get(port, '/'), { status: 200, body: 'home' });
+    assert.deepEqual(await get(port, '/pricing'), { status: 200, body: 'pricing' });
+    assert.deepEqual(await get(port, '/about/'), { status: 200, body: 'about' });
+  });
+
+  it('falls back to index.html for pages but not for assets', async () => {
+    assert.deepEqual(await get(port, '/dashboard/settings'), { status: 200, body: 'home' });
+    assert.equal((await get(port, '/missing.js')).status, 404);
+  });
+
+  it('never serves files outside the root', async () => {
+    for (const requestPath of ['/../secret.txt', '/%2e%2e/secret.txt', '/about/%2e%2e%2f%2e%2e%2fsecret.txt', '/..%5csecret.txt']) {
+      assert.equal((await get(port, requestPath)).status, 404, requestPath);
+    }
+  });
+});
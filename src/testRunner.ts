@@ -1,12 +1,29 @@
-import * as vscode from 'vscode';
 import { exec } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
 import { promisify } from 'node:util';
-import { GitService } from './services/gitService';
-import { PlaywrightService } from './services/playwrightService';
+import { GitService, runTestFiles, StashConflictError } from './services/gitService';
+import { NetworkReplay, PlaywrightService, TestResult } from './services/playwrightService';
+import { RunResults, UrlOutcome } from './services/playwrightResults';
+import { BaselineCacheService } from './services/baselineCacheService';
+import { BaselineRef } from './refPicker';
+import { CancelledError, throwIfCancelled } from './services/cancellation';
+import { RunJournal, RunJournalEntry } from './services/runJournal';
+import { DiffThresholds, PerRoute, resolveRouteOptions, RouteOptions } from './services/routeOptions';
+import { configuredAuthRoles } from './services/authRoles';
+import { RunLog } from './services/runLog';
+import { Settings } from './services/settings';
 import { ServerService } from './services/serverService';
+import { LOCKFILE_INSTALL_COMMANDS, resolveServerProfile, ServerSide } from './services/serverProfiles';
+import { buildPagesSpec, buildPlaywrightConfig } from './specTemplate';
+import { RunCancellation, RunHost, RunProgress } from './runHost';
 
 const execAsync = promisify(exec);
 
+/** Subdirectory of a saved baseline holding its network recording */
+const NETWORK_RECORDING_DIR = 'har';
+
 interface StepResult {
   icon: string;
   message: string;
@@ -14,49 +31,58 @@ interface StepResult {
 }
 
 export class TestRunner {
-  private readonly outputChannel: vscode.OutputChannel;
   private readonly completedSteps: StepResult[] = [];
   private spinnerInterval: NodeJS.Timeout | null = null;
-  private readonly spinnerFrames = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
-  private spinnerIndex = 0;
-  private readonly statusBarItem: vscode.StatusBarItem;
+  private worktreePath = '';
+  private tmpDir = '';
+  private harRecordingDir = '';
+  private baselineDescription = '';
+  private currentStep: { icon: string; message: string } | null = null;
+  private signal: AbortSignal | undefined;
+  private journaling = false;
+  private stashSha = '';
+  private switchedBranch = false;
+  /** Test files carried across checkout-mode branch switches */
+  private keepPaths: string[] = [];
+  private dependenciesSwapped = false;
 
   constructor(
     private readonly gitService: GitService,
     private readonly serverService: ServerService,
     private readonly playwrightService: PlaywrightService,
-    private readonly config: vscode.WorkspaceConfiguration
-  ) {
-    this.outputChannel = vscode.window.createOutputChannel('Visual Regression Test');
-    this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
-    this.statusBarItem.show();
-  }
+    private readonly config: Settings,
+    private readonly host: RunHost,
+    private readonly baselineCache?: BaselineCacheService,
+    private readonly journal?: RunJournal
+  ) {}
 
   private log(message: string): void {
     const timestamp = new Date().toLocaleTimeString();
-    this.outputChannel.appendLine(`[${timestamp}] ${message}`);
+    this.host.appendLine(`[${timestamp}] ${message}`);
   }
 
   private startSpinner(icon: string, message: string): void {
+    // Every step starts here, so this is where a pending cancellation takes effect
+    throwIfCancelled(this.signal);
+
     if (this.spinnerInterval) {
       clearInterval(this.spinnerInterval);
     }
-    
-    this.spinnerIndex = 0;
-    const timestamp = new Date().toLocaleTimeString();
-    
-    this.spinnerInterval = setInterval(() => {
-      this.outputChannel.clear();
-      const frame = this.spinnerFrames[this.spinnerIndex];
-      this.outputChannel.appendLine('🎨 Visual Regression Testing in progress...');
-      this.outputChannel.appendLine('');
-      this.outputChannel.appendLine(`[${timestamp}] ${frame} ${icon} ${message}`);
-      
-      // Update status bar
-      this.statusBarItem.text = `$(sync~spin) ${icon} ${message}`;
-      
-      this.spinnerIndex = (this.spinnerIndex + 1) % this.spinnerFrames.length;
-    }, 80);
+    this.currentStep = { icon, message };
+    void this.recordJournal({ step: message });
+
+    // Steps are appended, never redrawn, so earlier output stays readable
+    this.log(`▶ ${icon} ${message}`);
+    RunLog.get().info('step', `▶ ${icon} ${message}`);
+
+    // The running step and its elapsed time live in the status bar
+    const startedAt = Date.now();
+    const updateStatusBar = () => {
+      const elapsed = Math.round((Date.now() - startedAt) / 1000);
+      this.host.setStatus(`${icon} ${message} (${elapsed}s)`);
+    };
+    updateStatusBar();
+    this.spinnerInterval = setInterval(updateStatusBar, 1000);
   }
 
   private stopSpinner(icon: string, message: string, success: boolean = true): void {
@@ -64,37 +90,110 @@ export class TestRunner {
       clearInterval(this.spinnerInterval);
       this.spinnerInterval = null;
     }
+    this.currentStep = null;
     
     // Record the completed step
     this.completedSteps.push({ icon, message, success });
+    this.log(`${success ? '✓' : '✗'} ${icon} ${message}`);
+    RunLog.get().log(success ? 'info' : 'error', 'step', `${success ? '✓' : '✗'} ${icon} ${message}`);
     
     // Clear status bar
-    this.statusBarItem.text = '';
+    this.host.setStatus('');
   }
 
 
 
-  private showFinalSummary(): void {
-    this.outputChannel.clear();
+  private showFinalSummary(results?: RunResults, routeOptions: PerRoute<RouteOptions> = {}): void {
+    this.host.appendLine('');
     const timestamp = new Date().toLocaleTimeString();
-    this.outputChannel.appendLine('🎨 Visual Regression Test - Complete');
-    this.outputChannel.appendLine('='.repeat(60));
-    this.outputChannel.appendLine('');
+    this.host.appendLine('🎨 Visual Regression Test - Complete');
+    this.host.appendLine('='.repeat(60));
+    if (this.baselineDescription) {
+      this.host.appendLine(`Baseline: ${this.baselineDescription}`);
+    }
+    this.host.appendLine('');
     
     const hasFailures = this.completedSteps.some(step => !step.success);
     
     for (const step of this.completedSteps) {
       const status = step.success ? '✓' : '✗';
-      this.outputChannel.appendLine(`[${timestamp}] ${status} ${step.icon} ${step.message}`);
+      this.host.appendLine(`[${timestamp}] ${status} ${step.icon} ${step.message}`);
     }
     
-    this.outputChannel.appendLine('');
-    this.outputChannel.appendLine('='.repeat(60));
+    if (results && results.urls.length > 0) {
+      this.host.appendLine('');
+      this.host.appendLine(
+        `📄 Pages: ${results.passed} unchanged, ${results.changed} changed, ${results.failed} failed`
+      );
+      // Group by browser and matrix cell so each combination reads as one block
+      const groups = new Map<string, UrlOutcome[]>();
+      for (const outcome of results.urls) {
+        const group = [outcome.projectName, outcome.cell].filter(Boolean).join(' · ') || 'default';
+        groups.set(group, [...(groups.get(group) ?? []), outcome]);
+      }
+      for (const [group, outcomes] of groups) {
+        this.host.appendLine(`   ▸ ${group}`);
+        for (const outcome of outcomes) {
+          this.host.appendLine(`     ${this.describeOutcome(outcome, routeOptions[outcome.urlPath]?.thresholds)}`);
+        }
+      }
+    }
+
+    this.host.appendLine('');
+    this.host.appendLine('='.repeat(60));
     
     if (hasFailures) {
-      this.outputChannel.appendLine('❌ Test run completed with failures');
+      this.host.appendLine('❌ Test run completed with failures');
+      this.host.appendLine(`   Server and Playwright output: ${this.host.logLocation}`);
     } else {
-      this.outputChannel.appendLine('✅ All steps completed successfully');
+      this.host.appendLine('✅ All steps completed successfully');
+    }
+  }
+
+  private describeOutcome(outcome: UrlOutcome, thresholds?: DiffThresholds): string {
+    const icons: Record<UrlOutcome['status'], string> = {
+      passed: '✓',
+      changed: '≠',
+      missing: '+',
+      failed: '✗',
+      skipped: '-'
+    };
+    const limit = this.describeThresholds(thresholds);
+    const details = outcome.snapshots
+      .filter(snapshot => snapshot.diffRatio !== undefined)
+      .map(snapshot => `${snapshot.name}: ${snapshot.diffPixels}px (${(snapshot.diffRatio! * 100).toFixed(2)}%) > ${limit}`);
+    const label = outcome.status === 'missing' ? 'new screenshot, no baseline' : outcome.status;
+    let suffix = details.length > 0 ? ` - ${details.join(', ')}` : '';
+    if (outcome.status === 'passed' && thresholds) {
+      suffix = ` - within ${limit}`;
+    }
+    return `${icons[outcome.status]} ${outcome.urlPath} ${label}${suffix}`;
+  }
+
+  private describeThresholds(thresholds?: DiffThresholds): string {
+    const limits: string[] = [];
+    if (thresholds?.maxDiffPixels !== undefined) {
+      limits.push(`${thresholds.maxDiffPixels}px`);
+    }
+    if (thresholds?.maxDiffPixelRatio !== undefined) {
+      limits.push(`${(thresholds.maxDiffPixelRatio * 100).toFixed(2)}%`);
+    }
+    const limit = limits.length > 0 ? `limit ${limits.join(' / ')}` : 'limit from playwright.config';
+    return thresholds?.threshold !== undefined ? `${limit}, pixel threshold ${thresholds.threshold}` : limit;
+  }
+
+  /**
+   * Journal writes are queued in order, so the step recorded by startSpinner
+   * need not be awaited; a failed write is logged rather than ending the run.
+   */
+  private async recordJournal(changes: Partial<RunJournalEntry>): Promise<void> {
+    if (!this.journaling) {
+      return;
+    }
+    try {
+      await this.journal?.update(changes);
+    } catch (error) {
+      RunLog.get().log('warn', 'journal', `Could not record run state: ${error instanceof Error ? error.message : error}`);
     }
   }
 
@@ -102,7 +201,7 @@ export class TestRunner {
     if (this.spinnerInterval) {
       clearInterval(this.spinnerInterval);
     }
-    this.statusBarItem.dispose();
+    this.host.dispose();
   }
 
   private colorBranch(branchName: string, isMainBranch: boolean): string {
@@ -113,15 +212,22 @@ export class TestRunner {
 
   async runTest(
     urlPaths: string[],
-    progress: vscode.Progress<{ message?: string; increment?: number }>
-  ): Promise<void> {
+    progress: RunProgress,
+    baseline?: BaselineRef,
+    token?: RunCancellation
+  ): Promise<TestResult> {
     const mainBranch = this.config.get<string>('mainBranch', 'main');
+    const baseRef = baseline?.ref ?? mainBranch;
+    const baseLabel = baseline?.label ?? mainBranch;
     const serverPort = this.config.get<number>('serverPort', 3000);
-    const startupTime = this.config.get<number>('serverStartupTime', 5000);
     const testPath = this.config.get<string>('testPath', 'tests/visual');
 
     // Show output channel
-    this.outputChannel.show(true);
+    this.host.show();
+    this.host.appendLine('🎨 Visual Regression Testing in progress...');
+    this.host.appendLine('');
+    const runLog = RunLog.get();
+    runLog.setPhase('');
 
     // Validate prerequisites
     progress.report({ message: 'Validating setup...', increment: 5 });
@@ -147,129 +253,473 @@ export class TestRunner {
     this.startSpinner('📍', 'Getting current branch');
     const originalBranch = await this.gitService.getCurrentBranch();
     this.stopSpinner('📍', `Getting current branch: ${this.colorBranch(originalBranch, false)}`, true);
+
+    const isolation = this.config.get<'worktree' | 'checkout'>('baselineIsolation', 'worktree');
+
+    // From here on the run changes the workspace - journal it in case we never reach cleanup
+    await this.journal?.begin({ originalBranch, isolation, serverPort, step: 'Clearing existing snapshots' });
+    this.journaling = true;
+    let restoreFailed = false;
     
     // Clear any existing snapshots before starting
     this.startSpinner('🧹', 'Clearing existing snapshots');
     await this.gitService.clearSnapshots();
     this.stopSpinner('🧹', 'Clearing existing snapshots', true);
     
-    let tmpDir = '';
+    const abortController = new AbortController();
+    this.signal = abortController.signal;
+    const cancelSubscription = token?.onCancellationRequested(() => {
+      this.log(`🚫 Cancellation requested${this.currentStep ? ` during: ${this.currentStep.message}` : ''}`);
+      abortController.abort();
+    });
     try {
-      // Switch to main branch
-      progress.report({ message: `Switching to ${mainBranch}...`, increment: 10 });
-      this.startSpinner('🔄', `Switching to ${this.colorBranch(mainBranch, true)} branch`);
-      await this.gitService.checkout(mainBranch);
-      this.stopSpinner('🔄', `Switching to ${this.colorBranch(mainBranch, true)} branch`, true);
-
-      // Start server and capture baseline
-      progress.report({ message: 'Starting server on main branch...', increment: 10 });
-      this.startSpinner('🚀', `Starting dev server on port ${serverPort}`);
-      await this.serverService.start();
-      await this.wait(startupTime);
-      this.stopSpinner('🚀', `Starting dev server on port ${serverPort}`, true);
-
-      progress.report({ message: 'Capturing baseline screenshots...', increment: 20 });
-      this.startSpinner('📸', `Capturing baseline screenshots for ${urlPaths.length} URL(s)`);
-      await this.playwrightService.updateAllSnapshots(urlPaths, serverPort);
-      this.stopSpinner('📸', `Capturing baseline screenshots for ${urlPaths.length} URL(s)`, true);
-
-      // Copy the baseline snapshots to temp directory
-      progress.report({ message: 'Saving baseline snapshots...', increment: 5 });
-      this.startSpinner('💾', 'Saving baseline snapshots to temp directory');
-      tmpDir = await this.gitService.saveSnapshotsToTemp();
-      this.stopSpinner('💾', 'Saving baseline snapshots to temp directory', true);
-
-      // Stop server
-      this.startSpinner('🛑', 'Stopping server');
-      await this.serverService.stop();
-      this.stopSpinner('🛑', 'Stopping server', true);
-
-      // Switch back to original branch
-      progress.report({ message: `Switching back to ${originalBranch}...`, increment: 10 });
-      this.startSpinner('🔄', `Switching back to ${this.colorBranch(originalBranch, false)} branch`);
-      await this.gitService.checkout(originalBranch);
-      this.stopSpinner('🔄', `Switching back to ${this.colorBranch(originalBranch, false)} branch`, true);
+      // Resolve once so the capture, the cache key and the summary agree on the commit
+      this.startSpinner('🔎', `Resolving baseline ${this.colorBranch(baseLabel, true)}`);
+      const baseSha = await this.gitService.resolveRef(baseRef);
+      this.baselineDescription = `${baseLabel} @ ${baseSha.slice(0, 8)}`;
+      this.stopSpinner('🔎', `Resolving baseline ${this.colorBranch(this.baselineDescription, true)}`, true);
+
+      let baselineDir = this.findCachedBaseline(urlPaths, baseSha, testPath);
+      if (!baselineDir) {
+        runLog.setPhase(`baseline ${baseLabel}`);
+        baselineDir = await this.captureBaseline(urlPaths, progress, originalBranch, isolation, baseSha, baseLabel);
+        await this.storeCachedBaseline(urlPaths, baseLabel, baseSha, testPath, baselineDir);
+      }
+      runLog.setPhase(`feature ${originalBranch}`);
 
-      // Restore baseline snapshots from temp (overwrite feature branch snapshots)
-      this.startSpinner('📦', 'Restoring baseline snapshots (from main) to compare against');
-      await this.gitService.restoreSnapshotsFromTemp(tmpDir);
-      this.stopSpinner('📦', 'Restoring baseline snapshots (from main) to compare against', true);
+      // Restore baseline snapshots (overwrite feature branch snapshots)
+      this.startSpinner('📦', `Restoring baseline snapshots (from ${baseLabel}) to compare against`);
+      await this.gitService.restoreSnapshotsFromTemp(baselineDir);
+      this.stopSpinner('📦', `Restoring baseline snapshots (from ${baseLabel}) to compare against`, true);
 
       // Start server and run comparison tests
       progress.report({ message: 'Starting server on feature branch...', increment: 10 });
-      this.startSpinner('🚀', `Starting dev server on ${this.colorBranch(originalBranch, false)}`);
-      await this.serverService.start();
-      await this.wait(startupTime);
-      this.stopSpinner('🚀', `Starting dev server on ${this.colorBranch(originalBranch, false)}`, true);
+      let featurePort = await this.serverService.findRunningServer();
+      if (featurePort) {
+        this.startSpinner('♻️', `Reusing running dev server on port ${featurePort}`);
+        this.stopSpinner('♻️', `Reusing running dev server on port ${featurePort}`, true);
+      } else {
+        featurePort = await this.startServer('feature', this.colorBranch(originalBranch, false));
+      }
+
+      await this.logInAuthRoles(featurePort);
 
+      const networkReplay = this.networkReplayFrom(baselineDir);
       progress.report({ message: 'Running visual regression tests...', increment: 20 });
       this.startSpinner('🧪', `Running visual regression tests for ${urlPaths.length} URL(s)`);
-      const result = await this.playwrightService.runAllTests(urlPaths, serverPort);
+      const result = await this.playwrightService.runAllTests(urlPaths, featurePort, this.signal, networkReplay);
       this.stopSpinner('🧪', `Running visual regression tests for ${urlPaths.length} URL(s)`, true);
 
-      // Stop server
-      this.startSpinner('🛑', 'Stopping server');
-      await this.serverService.stop();
-      this.stopSpinner('🛑', 'Stopping server', true);
+      // Stop server - a reused server belongs to the user and keeps running
+      if (this.serverService.isRunning) {
+        this.startSpinner('🛑', 'Stopping server');
+        await this.serverService.stop();
+        await this.recordJournal({ serverPid: undefined });
+        this.stopSpinner('🛑', 'Stopping server', true);
+      }
 
       // Show final summary
-      this.showFinalSummary();
+      this.showFinalSummary(result.results, resolveRouteOptions(this.config, urlPaths));
 
       // Show results
       if (result.success) {
         this.log('');
         this.log('✨ All tests passed!');
-        vscode.window.showInformationMessage(
-          `✅ Visual regression tests passed for all ${urlPaths.length} URL(s)!`
-        );
+        this.host.notify('info', `✅ Visual regression tests passed for all ${urlPaths.length} URL(s)!`);
       } else {
         this.log('');
         this.log('📊 Test Results: Differences detected');
         this.log(`  Tested ${urlPaths.length} URL(s)`);
-        for (const url of urlPaths) {
-          this.log(`     - ${url}`);
+        const changedPages = this.changedPages(result.results);
+        if (changedPages.length > 0) {
+          this.log(`  Changed: ${changedPages.join(', ')}`);
+        } else {
+          for (const url of urlPaths) {
+            this.log(`     - ${url}`);
+          }
         }
 
-        const action = await vscode.window.showWarningMessage(
-          `⚠️ Visual regression tests failed - differences detected!`,
-          'Show Report',
-          'Dismiss'
-        );
-        if (action === 'Show Report') {
-          await this.showHtmlReport();
-        }
+        const message = changedPages.length > 0
+          ? `⚠️ Visual changes detected on ${changedPages.length} page(s): ${changedPages.join(', ')}`
+          : `⚠️ Visual regression tests failed - differences detected!`;
+
+        this.host.differencesFound(message);
       }
 
+      return result;
     } catch (error) {
+      // Cleanup must run to completion, even after a cancellation
+      this.signal = undefined;
+      const interruptedStep = this.currentStep;
+      if (interruptedStep) {
+        this.stopSpinner(interruptedStep.icon, interruptedStep.message, false);
+      }
+
       // Show summary of steps completed before failure
       this.showFinalSummary();
       
       // Ensure we're back on original branch and server is stopped
       this.log('');
-      this.log('❌ Test failed - cleaning up...');
+      if (error instanceof CancelledError) {
+        this.log(`🚫 Run cancelled during: ${interruptedStep ? `${interruptedStep.icon} ${interruptedStep.message}` : 'setup'}`);
+        this.log('🧹 Cleaning up...');
+      } else {
+        this.log(`❌ ${error instanceof Error ? error.message : String(error)}`);
+        this.log('❌ Test failed - cleaning up...');
+      }
+      const runningPort = this.serverService.port;
       await this.serverService.stop();
-      await this.serverService.killPort(serverPort);
-      try {
-        await this.gitService.checkout(originalBranch);
-      } catch (checkoutError) {
-        // Log but don't throw - we want to show the original error
-        console.error('Failed to switch back to original branch:', checkoutError);
+      if (runningPort !== undefined) {
+        this.log(await this.serverService.waitForPortRelease(runningPort)
+          ? '  ✓ Dev server stopped'
+          : `  ✗ Dev server stopped, but port ${runningPort} is still in use`);
+      }
+      if (this.worktreePath) {
+        await this.gitService.removeWorktree(this.worktreePath);
+        this.worktreePath = '';
+        this.log('  ✓ Baseline worktree removed');
+      } else if (this.switchedBranch) {
+        try {
+          await this.gitService.checkout(originalBranch, this.keepPaths);
+          this.switchedBranch = false;
+          this.log(`  ✓ Restored ${this.colorBranch(originalBranch, false)} branch`);
+        } catch (checkoutError) {
+          // Log but don't throw - we want to show the original error
+          RunLog.get().warn('git', `Failed to switch back to ${originalBranch}: ${checkoutError}`);
+          this.log(`  ✗ Could not switch back to ${originalBranch}: ${checkoutError}`);
+          restoreFailed = true;
+        }
+      }
+      // Re-apply the stash only once back on its branch - otherwise the journal keeps it for recovery
+      if (this.stashSha && !this.switchedBranch) {
+        try {
+          await this.restoreStash();
+          this.log('  ✓ Uncommitted changes restored');
+        } catch {
+          // restoreStash has already reported the conflicts
+        }
+      }
+      if (this.dependenciesSwapped) {
+        this.dependenciesSwapped = false;
+        this.log(`  ⚠️ node_modules still holds the dependencies of ${baseLabel} - reinstall them before continuing`);
       }
       throw error;
     } finally {
+      this.signal = undefined;
+      cancelSubscription?.dispose();
+      runLog.setPhase('');
+      this.playwrightService.clearAuthStates();
       // Cleanup temp directory if it exists
-      if (tmpDir) {
+      if (this.tmpDir) {
         this.startSpinner('🧹', 'Cleaning up temp directory');
-        await this.gitService.cleanupTemp(tmpDir);
+        await this.gitService.cleanupTemp(this.tmpDir);
+        this.tmpDir = '';
         this.stopSpinner('🧹', 'Cleaning up temp directory', true);
       }
+      if (this.harRecordingDir) {
+        await fs.promises.rm(this.harRecordingDir, { recursive: true, force: true });
+        this.harRecordingDir = '';
+      }
+      // Leave the journal behind if we could not get back to the original branch
+      this.journaling = false;
+      if (!restoreFailed) {
+        await this.journal?.finish();
+      }
       this.log('');
       this.log('✨ Test run complete');
     }
   }
 
-  private wait(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  /**
+   * Checks out the baseline (in a worktree or in place), captures its
+   * screenshots and returns the temp directory holding them.
+   */
+  private async captureBaseline(
+    urlPaths: string[],
+    progress: RunProgress,
+    originalBranch: string,
+    isolation: 'worktree' | 'checkout',
+    baseSha: string,
+    baseLabel: string
+  ): Promise<string> {
+    const testPath = this.config.get<string>('testPath', 'tests/visual');
+
+    // Dependencies only need installing when the baseline's lockfile differs from ours
+    const changedLockfiles = await this.gitService.getChangedPaths(baseSha, Object.keys(LOCKFILE_INSTALL_COMMANDS));
+    if (changedLockfiles.length > 0) {
+      this.log(`📦 ${changedLockfiles.join(', ')} changed since ${baseLabel} - dependencies will be installed for it`);
+    }
+
+    let baselineRoot: string | undefined;
+    if (isolation === 'worktree') {
+      // Capture the baseline in a separate worktree so the working copy is never touched
+      progress.report({ message: `Creating ${baseLabel} worktree...`, increment: 10 });
+      this.startSpinner('🌳', `Creating worktree for ${this.colorBranch(baseLabel, true)}`);
+      this.worktreePath = await this.gitService.createWorktree(baseSha);
+      await this.recordJournal({ worktreePath: this.worktreePath });
+      await this.gitService.prepareWorktree(this.worktreePath, testPath, changedLockfiles.length === 0);
+      await this.gitService.clearSnapshots(this.worktreePath);
+      baselineRoot = this.worktreePath;
+      this.stopSpinner('🌳', `Creating worktree for ${this.colorBranch(baseLabel, true)}`, true);
+    } else {
+      // The baseline is captured with the working copy's spec and config, so those stay put
+      this.keepPaths = runTestFiles(testPath);
+      await this.recordJournal({ keepPaths: this.keepPaths });
+      // A forced checkout would discard other uncommitted work, so park it first
+      await this.stashUncommittedChanges(baseLabel);
+
+      // Switch to the baseline commit
+      progress.report({ message: `Switching to ${baseLabel}...`, increment: 10 });
+      this.startSpinner('🔄', `Switching to ${this.colorBranch(baseLabel, true)}`);
+      this.switchedBranch = true;
+      await this.gitService.checkout(baseSha, this.keepPaths);
+      this.stopSpinner('🔄', `Switching to ${this.colorBranch(baseLabel, true)}`, true);
+    }
+
+    if (changedLockfiles.length > 0) {
+      this.dependenciesSwapped = isolation === 'checkout';
+      await this.installDependencies(baseLabel, baselineRoot);
+    }
+
+    // Start server and capture baseline
+    progress.report({ message: `Starting server on ${baseLabel}...`, increment: 10 });
+    const serverPort = await this.startServer('baseline', this.colorBranch(baseLabel, true), baselineRoot);
+
+    await this.logInAuthRoles(serverPort, baselineRoot);
+
+    progress.report({ message: 'Capturing baseline screenshots...', increment: 20 });
+    this.startSpinner('📸', `Capturing baseline screenshots for ${urlPaths.length} URL(s)`);
+    // Record the baseline's network traffic so the feature run sees the same data
+    let networkRecording: NetworkReplay | undefined;
+    if (this.config.get<boolean>('networkReplay', false)) {
+      this.harRecordingDir = path.join(os.tmpdir(), `visual-regression-har-${Date.now()}`);
+      networkRecording = { mode: 'record', dir: this.harRecordingDir };
+    }
+    await this.playwrightService.updateAllSnapshots(urlPaths, serverPort, baselineRoot, this.signal, networkRecording);
+    this.stopSpinner('📸', `Capturing baseline screenshots for ${urlPaths.length} URL(s)`, true);
+
+    // Copy the baseline snapshots to temp directory
+    progress.report({ message: 'Saving baseline snapshots...', increment: 5 });
+    this.startSpinner('💾', 'Saving baseline snapshots to temp directory');
+    this.tmpDir = await this.gitService.saveSnapshotsToTemp(baselineRoot);
+    await this.recordJournal({ tmpDir: this.tmpDir });
+    if (this.harRecordingDir && fs.existsSync(this.harRecordingDir)) {
+      // Kept with the snapshots, so a cached baseline brings its recording along
+      await fs.promises.cp(this.harRecordingDir, path.join(this.tmpDir, NETWORK_RECORDING_DIR), { recursive: true });
+    }
+    this.stopSpinner('💾', 'Saving baseline snapshots to temp directory', true);
+
+    // Stop server
+    this.startSpinner('🛑', 'Stopping server');
+    await this.serverService.stop();
+    await this.recordJournal({ serverPid: undefined });
+    this.stopSpinner('🛑', 'Stopping server', true);
+
+    if (this.worktreePath) {
+      this.startSpinner('🌳', 'Removing baseline worktree');
+      await this.gitService.removeWorktree(this.worktreePath);
+      this.worktreePath = '';
+      await this.recordJournal({ worktreePath: undefined });
+      this.stopSpinner('🌳', 'Removing baseline worktree', true);
+    } else {
+      // Switch back to original branch
+      progress.report({ message: `Switching back to ${originalBranch}...`, increment: 10 });
+      this.startSpinner('🔄', `Switching back to ${this.colorBranch(originalBranch, false)} branch`);
+      await this.gitService.checkout(originalBranch, this.keepPaths);
+      this.switchedBranch = false;
+      this.stopSpinner('🔄', `Switching back to ${this.colorBranch(originalBranch, false)} branch`, true);
+
+      await this.restoreStash();
+
+      // node_modules now holds the baseline's dependencies
+      if (this.dependenciesSwapped) {
+        await this.installDependencies(originalBranch);
+        this.dependenciesSwapped = false;
+      }
+    }
+
+    return this.tmpDir;
+  }
+
+  private async installDependencies(label: string, cwd?: string): Promise<void> {
+    this.startSpinner('📦', `Installing dependencies for ${label}`);
+    await this.serverService.installDependencies(cwd, this.signal);
+    this.stopSpinner('📦', `Installing dependencies for ${label}`, true);
+  }
+
+  /**
+   * Runs the side's pre-start command, if its profile has one, then starts
+   * its dev server and waits until it is ready. Resolves with the server's port.
+   */
+  private async startServer(side: ServerSide, label: string, cwd?: string): Promise<number> {
+    const { preStartCommand } = resolveServerProfile(this.config, side);
+    if (preStartCommand) {
+      this.startSpinner('🔧', `Running ${preStartCommand} on ${label}`);
+      await this.serverService.runPreStart(side, cwd, this.signal);
+      this.stopSpinner('🔧', `Running ${preStartCommand} on ${label}`, true);
+    }
+
+    if (this.config.get<string>('serverMode', 'dev') === 'static') {
+      this.startSpinner('🏗️', `Building ${label}`);
+      await this.serverService.build(side, cwd, this.signal);
+      this.stopSpinner('🏗️', `Building ${label}`, true);
+
+      this.startSpinner('🚀', `Serving build of ${label}`);
+      const port = await this.serverService.start(cwd, side);
+      this.stopSpinner('🚀', `Serving build of ${label} (port ${port})`, true);
+      return port;
+    }
+
+    this.startSpinner('🚀', `Starting dev server on ${label}`);
+    const port = await this.serverService.start(cwd, side);
+    await this.recordJournal({ serverPid: this.serverService.pid, serverPort: port, serverCommand: this.serverService.command });
+    await this.serverService.waitUntilReady(port, this.signal);
+    this.stopSpinner('🚀', `Starting dev server on ${label} (port ${port})`, true);
+    return port;
+  }
+
+  private networkReplayFrom(baselineDir: string): NetworkReplay | undefined {
+    if (!this.config.get<boolean>('networkReplay', false)) {
+      return undefined;
+    }
+    const dir = path.join(baselineDir, NETWORK_RECORDING_DIR);
+    if (!fs.existsSync(dir)) {
+      this.log('⚠️  No network recording for this baseline - the feature run uses live data');
+      return undefined;
+    }
+    return { mode: 'replay', dir };
+  }
+
+  /** Saves a fresh session per auth role from the server that is about to be captured */
+  private async logInAuthRoles(serverPort: number, cwd?: string): Promise<void> {
+    const roles = configuredAuthRoles(this.config).map(role => role.name);
+    if (roles.length === 0) {
+      return;
+    }
+
+    this.startSpinner('🔑', `Logging in as ${roles.join(', ')}`);
+    await this.playwrightService.captureAuthStates(serverPort, cwd, this.signal);
+    this.stopSpinner('🔑', `Logging in as ${roles.join(', ')}`, true);
+  }
+
+  private async stashUncommittedChanges(baseLabel: string): Promise<void> {
+    const changes = await this.gitService.getUncommittedChanges(this.keepPaths);
+    if (changes.length === 0) {
+      return;
+    }
+
+    this.log(`⚠️  ${changes.length} uncommitted change(s) in the working copy`);
+    const action = await this.host.ask(
+      `You have ${changes.length} uncommitted change(s). Switching to ${baseLabel} would discard them. ` +
+      'Stash them (including untracked files) and restore them after the baseline is captured?',
+      'Stash and Continue',
+      'Cancel'
+    );
+    if (action !== 'Stash and Continue') {
+      throw new CancelledError();
+    }
+
+    this.startSpinner('📥', `Stashing ${changes.length} uncommitted change(s)`);
+    this.stashSha = await this.gitService.stash(`visual-regression: before capturing ${baseLabel}`, this.keepPaths);
+    if (this.stashSha) {
+      await this.recordJournal({ stashSha: this.stashSha });
+    }
+    this.stopSpinner('📥', `Stashing ${changes.length} uncommitted change(s)`, true);
+  }
+
+  private async restoreStash(): Promise<void> {
+    if (!this.stashSha) {
+      return;
+    }
+
+    const stashSha = this.stashSha;
+    this.stashSha = '';
+    this.startSpinner('📤', 'Restoring uncommitted changes');
+    try {
+      await this.gitService.unstash(stashSha);
+      this.stopSpinner('📤', 'Restoring uncommitted changes', true);
+    } catch (error) {
+      this.stopSpinner('📤', 'Restoring uncommitted changes', false);
+      if (error instanceof StashConflictError) {
+        this.log(`✗ ${error.message}`);
+        for (const file of error.files) {
+          this.log(`     - ${file}`);
+        }
+        this.host.notify('error', error.message);
+      }
+      throw error;
+    } finally {
+      // Either restored, or the user has been told how to restore it
+      await this.recordJournal({ stashSha: undefined });
+    }
+  }
+
+  private baselineCacheKey(urlPaths: string[], sha: string, testPath: string): string {
+    const workspaceRoot = this.gitService['workspaceRoot'];
+    return this.baselineCache!.computeKey({
+      sha,
+      testFilesHash: this.baselineCache!.hashTestFiles(workspaceRoot, testPath),
+      urls: urlPaths,
+      env: {
+        ...this.config.get<Record<string, string>>('environmentVariables', {}),
+        ...this.playwrightService.specEnv(urlPaths)
+      },
+      // A baseline served differently renders differently, so it must not be reused
+      server: {
+        mode: this.config.get<string>('serverMode', 'dev'),
+        staticBuildCommand: this.config.get<string>('staticBuildCommand', 'npm run build'),
+        staticOutputDir: this.config.get<string>('staticOutputDir', 'dist'),
+        staticSpaFallback: this.config.get<boolean>('staticSpaFallback', true),
+        profile: resolveServerProfile(this.config, 'baseline')
+      }
+    });
+  }
+
+  private findCachedBaseline(urlPaths: string[], sha: string, testPath: string): string | undefined {
+    if (!this.baselineCache || !this.config.get<boolean>('baselineCache', true)) {
+      return undefined;
+    }
+
+    this.startSpinner('♻️', 'Checking baseline cache');
+    const cachedDir = this.baselineCache.lookup(this.baselineCacheKey(urlPaths, sha, testPath));
+    this.stopSpinner(
+      '♻️',
+      cachedDir ? `Using cached baseline for ${sha.slice(0, 8)}` : `No cached baseline for ${sha.slice(0, 8)}`,
+      true
+    );
+    return cachedDir;
+  }
+
+  private async storeCachedBaseline(
+    urlPaths: string[],
+    ref: string,
+    sha: string,
+    testPath: string,
+    snapshotsDir: string
+  ): Promise<void> {
+    if (!this.baselineCache || !this.config.get<boolean>('baselineCache', true)) {
+      return;
+    }
+
+    try {
+      const key = this.baselineCacheKey(urlPaths, sha, testPath);
+      await this.baselineCache.store(key, snapshotsDir, {
+        ref,
+        sha,
+        urls: urlPaths,
+        workspace: this.gitService['workspaceRoot']
+      });
+    } catch (error) {
+      // A cache failure should never fail the run
+      RunLog.get().warn('cache', `Failed to store baseline: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private changedPages(results?: RunResults): string[] {
+    const pages = (results?.urls ?? [])
+      .filter(outcome => outcome.status !== 'passed' && outcome.status !== 'skipped')
+      .map(outcome => outcome.urlPath);
+    return [...new Set(pages)];
   }
 
   private async validateSetup(testPath: string): Promise<boolean> {
@@ -323,7 +773,7 @@ export class TestRunner {
         this.log(`⚠️  No test files found in ${testPath}`);
         
         // Offer to create a template test file
-        const action = await vscode.window.showWarningMessage(
+        const action = await this.host.ask(
           `No test files found in ${testPath}. Would you like to create a template test file?`,
           'Create Template',
           'Cancel'
@@ -352,7 +802,7 @@ export class TestRunner {
         fs.mkdirSync(parentDir, { recursive: true });
       }
       
-      const action = await vscode.window.showWarningMessage(
+      const action = await this.host.ask(
         `Test file not found: ${testPath}. Would you like to create a template test file?`,
         'Create Template',
         'Cancel'
@@ -388,50 +838,10 @@ export class TestRunner {
     const fs = require('node:fs');
     const path = require('node:path');
 
-    const importPath = this.config.get<string>('testImportPath', '@playwright/test');
-    const waitForSelector = this.config.get<string>('waitForSelector', '');
-
-    // Generate the wait logic based on whether a selector is configured
-    const waitLogic = waitForSelector
-      ? `
-  // Wait for loading indicator to disappear (if configured)
-  await page.waitForFunction(() => {
-    const noLoading = !document.querySelector("${waitForSelector}");
-    return document.readyState === 'complete' && noLoading;
-  });`
-      : `
-  // Wait for the page to be fully loaded
-  await page.waitForLoadState('networkidle');`;
-
-    const templateContent = `import { test, expect } from '${importPath}';
-
-// Authentication bypass is handled via environment variables
-// Example: NEXT_PUBLIC_PLAYWRIGHT=true to bypass Auth0
-// Configure in VS Code settings: visualRegression.environmentVariables
-
-// Get URLs from environment variable (comma-separated for multiple URLs)
-const testUrls = process.env.TEST_URLS 
-  ? process.env.TEST_URLS.split(',')
-  : [process.env.TEST_URL || 'http://localhost:3000/'];
-
-// Generate a test for each URL
-for (const testUrl of testUrls) {
-  test(\`visual test for \${testUrl}\`, async ({ page }) => {
-    await page.goto(testUrl);
-${waitLogic}
-
-    // Generate unique filename from URL path
-    const urlPath = new URL(testUrl).pathname;
-    const filename = urlPath
-      .replace(/^\\//, '') // Remove leading slash
-      .replace(/\\//g, '-') // Replace slashes with hyphens
-      .replace(/[^a-zA-Z0-9-_]/g, '_') // Replace special chars with underscores
-      || 'homepage'; // Default name for root path
-
-    await expect(page).toHaveScreenshot(\`\${filename}.png\`, { fullPage: true });
-  });
-}
-`;
+    const templateContent = buildPagesSpec({
+      importPath: this.config.get<string>('testImportPath', '@playwright/test'),
+      waitForSelector: this.config.get<string>('waitForSelector', '')
+    });
 
     const filePath = path.join(testDir, 'pages.spec.ts');
     fs.writeFileSync(filePath, templateContent, 'utf8');
@@ -441,73 +851,11 @@ ${waitLogic}
     const configPath = path.join(workspaceRoot, 'playwright.config.ts');
     
     if (!fs.existsSync(configPath)) {
-      const configContent = `import { defineConfig } from '@playwright/test';
-
-export default defineConfig({
-  testDir: './${testPath}',
-  reporter: [['html', { open: 'never' }]],
-  use: {
-    baseURL: process.env.TEST_URL || 'http://localhost:3000',
-  },
-});
-`;
+      const configContent = buildPlaywrightConfig(testPath);
       fs.writeFileSync(configPath, configContent, 'utf8');
       this.log('✓ Created playwright.config.ts');
     }
     
-    vscode.window.showInformationMessage(
-      `Created template test file: ${testPath}/pages.spec.ts`
-    );
-  }
-
-  private async showHtmlReport(): Promise<void> {
-    try {
-      const workspaceRoot = this.gitService['workspaceRoot'];
-      
-      // Kill any existing report servers on port 9323
-      this.log('🔍 Checking for existing report server...');
-      try {
-        await execAsync('lsof -ti:9323 | xargs kill -9 2>/dev/null || true', {
-          cwd: workspaceRoot
-        });
-        this.log('🧹 Cleaned up existing report server');
-        await this.wait(500);
-      } catch {
-        // No existing server, that's fine
-      }
-
-      this.log('🌐 Opening Playwright HTML report...');
-      
-      // Run in background - don't await
-      const { exec } = require('node:child_process');
-      const reportProcess = exec('npx playwright show-report', {
-        cwd: workspaceRoot,
-        detached: true
-      });
-
-      reportProcess.stdout?.on('data', (data: Buffer) => {
-        const output = data.toString().trim();
-        if (output) {
-          this.log(`[Report] ${output}`);
-        }
-      });
-
-      reportProcess.stderr?.on('data', (data: Buffer) => {
-        const output = data.toString().trim();
-        if (output && !output.includes('EADDRINUSE')) {
-          this.log(`[Report Error] ${output}`);
-        }
-      });
-
-      // Give it a moment to start, then open browser
-      await this.wait(1500);
-      await vscode.env.openExternal(vscode.Uri.parse('http://localhost:9323'));
-      
-      this.log('✅ Report opened in browser at http://localhost:9323');
-      vscode.window.showInformationMessage('📊 Visual regression report opened in browser');
-    } catch (error) {
-      this.log(`❌ Failed to open HTML report: ${error}`);
-      vscode.window.showErrorMessage(`Failed to open report: ${error}`);
-    }
+    this.host.notify('info', `Created template test file: ${testPath}/pages.spec.ts`);
   }
 }
@@ -1,6 +1,9 @@
 import { exec, type ChildProcess } from "node:child_process";
 import { promisify } from "node:util";
 import * as vscode from "vscode";
+import { GitService } from "./services/gitService";
+import { RouteDiscoveryService } from "./services/routeDiscoveryService";
+import { readRouteManifest } from "./services/routeManifest";
 
 const execAsync = promisify(exec);
 
@@ -246,10 +249,13 @@ export class VisualRegressionController {
         );
         const action = await vscode.window.showErrorMessage(
           "❌ Visual regression tests detected differences",
+          "Open Diff Viewer",
           "Show Report",
           "Dismiss",
         );
-        if (action === "Show Report") {
+        if (action === "Open Diff Viewer") {
+          await vscode.commands.executeCommand("visualRegression.showDiffViewer");
+        } else if (action === "Show Report") {
           await this.showReport();
         }
       }
@@ -264,7 +270,63 @@ export class VisualRegressionController {
   }
 
   async runChangedPages() {
-    await this.runWorkflow("changed");
+    const config = vscode.workspace.getConfiguration("visualRegression");
+    const mainBranch = config.get<string>("mainBranch", "main");
+    const root = this.workspaceFolder.uri.fsPath;
+
+    this.outputChannel.clear();
+    this.outputChannel.show(true);
+    this.outputChannel.appendLine("🎨 Visual Regression - Changed Pages");
+    this.outputChannel.appendLine("=".repeat(60));
+
+    let changedFiles: string[];
+    try {
+      changedFiles = await new GitService(root).getChangedFiles(mainBranch);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Could not determine files changed since ${mainBranch}: ${error}`,
+      );
+      return;
+    }
+
+    const discovery = new RouteDiscoveryService(root);
+    const { routes } = discovery.discover(
+      config.get<string[]>("urls", ["/"]),
+      config.get<Record<string, string>>("routeParams", {}),
+      readRouteManifest(root)?.routes,
+    );
+    const affected = discovery.affectedRoutes(
+      changedFiles,
+      routes,
+      config.get<Record<string, string | string[]>>("changedFileRoutes", {}),
+    );
+
+    this.outputChannel.appendLine(
+      `${changedFiles.length} file(s) changed since ${mainBranch}`,
+    );
+    for (const [route, files] of affected.reasons) {
+      this.outputChannel.appendLine(`  ${route}`);
+      for (const file of files) {
+        this.outputChannel.appendLine(`     ← ${file}`);
+      }
+    }
+    if (affected.unmatched.length > 0) {
+      this.outputChannel.appendLine(
+        `Not mapped to any page: ${affected.unmatched.join(", ")}`,
+      );
+    }
+
+    if (affected.routes.length === 0) {
+      vscode.window.showInformationMessage(
+        `No pages are affected by the ${changedFiles.length} file(s) changed since ${mainBranch}`,
+      );
+      return;
+    }
+
+    await vscode.commands.executeCommand(
+      "visualRegression.runTest",
+      affected.routes,
+    );
   }
 
   async runSinglePage() {
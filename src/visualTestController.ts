@@ -0,0 +1,257 @@
+import * as vscode from 'vscode';
+import { BaselineCacheService } from './services/baselineCacheService';
+import { buildMatrix } from './services/captureMatrix';
+import { CancelledError } from './services/cancellation';
+import { RunJournal } from './services/runJournal';
+import { readRouteManifest } from './services/routeManifest';
+import { GitService } from './services/gitService';
+import { PlaywrightService, SnapshotArtifacts, TestResult } from './services/playwrightService';
+import { ServerService } from './services/serverService';
+import { TestRunner } from './testRunner';
+import { VscodeRunHost } from './vscodeRunHost';
+import { ManifestDiagnostics } from './manifestDiagnostics';
+
+/**
+ * Exposes each configured URL as an item in VS Code's Test Explorer and runs
+ * them through the usual baseline-vs-feature flow.
+ */
+export class VisualTestController {
+  private readonly controller: vscode.TestController;
+  private readonly playwrightService: PlaywrightService;
+  private isRunning = false;
+
+  constructor(
+    context: vscode.ExtensionContext,
+    private readonly workspaceFolder: vscode.WorkspaceFolder,
+    private readonly baselineCache: BaselineCacheService,
+    private readonly runJournal: RunJournal,
+    manifestDiagnostics: ManifestDiagnostics,
+  ) {
+    this.playwrightService = new PlaywrightService(workspaceFolder.uri.fsPath);
+
+    this.controller = vscode.tests.createTestController(
+      'visualRegression',
+      'Visual Regression',
+    );
+    this.controller.refreshHandler = () => this.loadTestItems();
+    this.controller.createRunProfile(
+      'Compare against main',
+      vscode.TestRunProfileKind.Run,
+      (request, token) => this.runHandler(request, token),
+      true,
+    );
+    context.subscriptions.push(this.controller);
+
+    context.subscriptions.push(
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration('visualRegression.urls')) {
+          this.loadTestItems();
+        }
+      }),
+      manifestDiagnostics.onDidChange(() => this.loadTestItems())
+    );
+
+    this.loadTestItems();
+  }
+
+  private loadTestItems(): void {
+    const config = vscode.workspace.getConfiguration('visualRegression');
+    const manifestRoutes = readRouteManifest(this.workspaceFolder.uri.fsPath)?.routes ?? [];
+    const urlPaths = [...new Set([...manifestRoutes.map(route => route.path), ...config.get<string[]>('urls', ['/'])])];
+
+    const items = urlPaths.map((urlPath) => {
+      const name = manifestRoutes.find(route => route.path === urlPath)?.name;
+      const item = this.controller.createTestItem(urlPath, name ?? urlPath);
+      item.description = name ? `${urlPath} · visual` : 'visual';
+      return item;
+    });
+    this.controller.items.replace(items);
+  }
+
+  private async runHandler(
+    request: vscode.TestRunRequest,
+    token: vscode.CancellationToken,
+  ): Promise<void> {
+    const run = this.controller.createTestRun(request);
+    const items = this.collectItems(request);
+
+    if (this.isRunning) {
+      for (const item of items) {
+        run.skipped(item);
+      }
+      run.appendOutput('Visual regression tests are already running\r\n');
+      run.end();
+      return;
+    }
+
+    if (items.length === 0 || token.isCancellationRequested) {
+      run.end();
+      return;
+    }
+
+    for (const item of items) {
+      run.enqueued(item);
+    }
+
+    const root = this.workspaceFolder.uri.fsPath;
+    const testRunner = new TestRunner(
+      new GitService(root),
+      new ServerService(root),
+      this.playwrightService,
+      vscode.workspace.getConfiguration('visualRegression'),
+      new VscodeRunHost(root),
+      this.baselineCache,
+      this.runJournal,
+    );
+
+    // Either the Test Explorer stop button or the notification's cancel button stops the run
+    const cancellation = new vscode.CancellationTokenSource();
+    const explorerSubscription = token.onCancellationRequested(() => cancellation.cancel());
+
+    this.isRunning = true;
+    try {
+      for (const item of items) {
+        run.started(item);
+      }
+
+      const result = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: 'Running Visual Regression Test',
+          cancellable: true,
+        },
+        (progress, progressToken) => {
+          progressToken.onCancellationRequested(() => cancellation.cancel());
+          return testRunner.runTest(items.map(item => item.id), progress, undefined, cancellation.token);
+        },
+      );
+
+      run.appendOutput(result.output.replace(/\r?\n/g, '\r\n'));
+      this.reportResults(run, items, result);
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        run.appendOutput('Run cancelled\r\n');
+        for (const item of items) {
+          run.skipped(item);
+        }
+        return;
+      }
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      for (const item of items) {
+        run.errored(item, new vscode.TestMessage(errorMsg));
+      }
+    } finally {
+      explorerSubscription.dispose();
+      cancellation.dispose();
+      this.isRunning = false;
+      testRunner.dispose();
+      run.end();
+    }
+  }
+
+  private collectItems(request: vscode.TestRunRequest): vscode.TestItem[] {
+    const items: vscode.TestItem[] = [];
+    if (request.include) {
+      items.push(...request.include);
+    } else {
+      this.controller.items.forEach(item => items.push(item));
+    }
+    return items.filter(item => !request.exclude?.includes(item));
+  }
+
+  private reportResults(
+    run: vscode.TestRun,
+    items: vscode.TestItem[],
+    result: TestResult,
+  ): void {
+    if (!result.results) {
+      this.reportFromArtifacts(run, items, result);
+      return;
+    }
+
+    for (const item of items) {
+      const outcomes = result.results.urls.filter(outcome => outcome.urlPath === item.id);
+      const duration = outcomes.reduce((total, outcome) => total + outcome.duration, 0);
+
+      if (outcomes.length === 0) {
+        run.skipped(item);
+        continue;
+      }
+
+      const changed = outcomes.filter(o => o.status === 'changed' || o.status === 'missing');
+      const failed = outcomes.filter(o => o.status === 'failed');
+      if (failed.length > 0) {
+        run.errored(item, failed.map(o => new vscode.TestMessage(o.error || 'Playwright test failed')), duration);
+      } else if (changed.length > 0) {
+        const messages = changed.flatMap(outcome => outcome.snapshots.map(snapshot =>
+          this.createDiffMessage(
+            `${item.id} (${snapshot.name}${outcome.projectName ? `, ${outcome.projectName}` : ''})`,
+            snapshot,
+            snapshot.diffRatio,
+          )
+        ));
+        run.failed(item, messages, duration);
+      } else if (outcomes.every(o => o.status === 'skipped')) {
+        run.skipped(item);
+      } else {
+        run.passed(item, duration);
+      }
+    }
+  }
+
+  /**
+   * Fallback for when no JSON results were written (e.g. a custom reporter
+   * config): infer per-URL status from the images left in test-results.
+   */
+  private reportFromArtifacts(
+    run: vscode.TestRun,
+    items: vscode.TestItem[],
+    result: TestResult,
+  ): void {
+    const cells = buildMatrix(vscode.workspace.getConfiguration('visualRegression')).map(cell => cell.name);
+    const artifactsByItem = new Map(
+      items.map(item => [
+        item,
+        cells
+          .map(cell => ({ cell, artifacts: this.playwrightService.findSnapshotArtifacts(item.id, cell) }))
+          .filter(({ artifacts }) => artifacts.diff || artifacts.actual),
+      ]),
+    );
+    const anyDiffs = [...artifactsByItem.values()].some(found => found.length > 0);
+
+    for (const [item, found] of artifactsByItem) {
+      if (found.length > 0) {
+        run.failed(item, found.map(({ cell, artifacts }) =>
+          this.createDiffMessage(cell ? `${item.id} (${cell})` : item.id, artifacts)
+        ));
+      } else if (!result.success && !anyDiffs) {
+        // The run failed without producing screenshots - surface the raw output
+        run.errored(item, new vscode.TestMessage(result.output || 'Playwright run failed'));
+      } else {
+        run.passed(item);
+      }
+    }
+  }
+
+  private createDiffMessage(
+    label: string,
+    artifacts: SnapshotArtifacts,
+    diffRatio?: number,
+  ): vscode.TestMessage {
+    const markdown = new vscode.MarkdownString(`**Visual differences detected for \`${label}\`**\n\n`);
+    if (diffRatio !== undefined) {
+      markdown.appendMarkdown(`${(diffRatio * 100).toFixed(2)}% of pixels differ\n\n`);
+    }
+    for (const [kind, file] of [
+      ['Expected', artifacts.expected],
+      ['Actual', artifacts.actual],
+      ['Diff', artifacts.diff],
+    ]) {
+      if (file) {
+        const uri = vscode.Uri.file(file).toString();
+        markdown.appendMarkdown(`${kind}: [${file}](${uri})\n\n![${kind}](${uri})\n\n`);
+      }
+    }
+    return new vscode.TestMessage(markdown);
+  }
+}
@@ -0,0 +1,121 @@
+import * as vscode from 'vscode';
+import { exec } from 'node:child_process';
+import { promisify } from 'node:util';
+import { RunHost } from './runHost';
+
+const execAsync = promisify(exec);
+
+/** Runs inside VS Code: an output channel, the status bar and notifications */
+export class VscodeRunHost implements RunHost {
+  private readonly outputChannel = vscode.window.createOutputChannel('Visual Regression Test');
+  private readonly statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+  readonly logLocation = '"Visual Regression: Logs" output channel';
+
+  constructor(private readonly workspaceRoot: string) {
+    this.statusBarItem.show();
+  }
+
+  appendLine(line: string): void {
+    this.outputChannel.appendLine(line);
+  }
+
+  show(): void {
+    this.outputChannel.show(true);
+  }
+
+  setStatus(text: string): void {
+    this.statusBarItem.text = text ? `$(sync~spin) ${text}` : '';
+  }
+
+  ask(message: string, ...actions: string[]): Promise<string | undefined> {
+    return Promise.resolve(vscode.window.showWarningMessage(message, ...actions));
+  }
+
+  notify(level: 'info' | 'error', message: string): void {
+    if (level === 'error') {
+      vscode.window.showErrorMessage(message);
+    } else {
+      vscode.window.showInformationMessage(message);
+    }
+  }
+
+  differencesFound(message: string): void {
+    // Don't block the run on the notification - callers may be waiting to report results
+    vscode.window.showWarningMessage(
+      message,
+      'Open Diff Viewer',
+      'Show Report',
+      'Dismiss'
+    ).then(action => {
+      if (action === 'Open Diff Viewer') {
+        vscode.commands.executeCommand('visualRegression.showDiffViewer');
+      } else if (action === 'Show Report') {
+        this.showHtmlReport();
+      }
+    });
+  }
+
+  dispose(): void {
+    this.statusBarItem.dispose();
+  }
+
+  private log(message: string): void {
+    const timestamp = new Date().toLocaleTimeString();
+    this.outputChannel.appendLine(`[${timestamp}] ${message}`);
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  private async showHtmlReport(): Promise<void> {
+    try {
+      const workspaceRoot = this.workspaceRoot;
+
+      // Kill any existing report servers on port 9323
+      this.log('🔍 Checking for existing report server...');
+      try {
+        await execAsync('lsof -ti:9323 | xargs kill -9 2>/dev/null || true', {
+          cwd: workspaceRoot
+        });
+        this.log('🧹 Cleaned up existing report server');
+        await this.wait(500);
+      } catch {
+        // No existing server, that's fine
+      }
+
+      this.log('🌐 Opening Playwright HTML report...');
+
+      // Run in background - don't await
+      const { exec } = require('node:child_process');
+      const reportProcess = exec('npx playwright show-report', {
+        cwd: workspaceRoot,
+        detached: true
+      });
+
+      reportProcess.stdout?.on('data', (data: Buffer) => {
+        const output = data.toString().trim();
+        if (output) {
+          this.log(`[Report] ${output}`);
+        }
+      });
+
+      reportProcess.stderr?.on('data', (data: Buffer) => {
+        const output = data.toString().trim();
+        if (output && !output.includes('EADDRINUSE')) {
+          this.log(`[Report Error] ${output}`);
+        }
+      });
+
+      // Give it a moment to start, then open browser
+      await this.wait(1500);
+      await vscode.env.openExternal(vscode.Uri.parse('http://localhost:9323'));
+
+      this.log('✅ Report opened in browser at http://localhost:9323');
+      vscode.window.showInformationMessage('📊 Visual regression report opened in browser');
+    } catch (error) {
+      this.log(`❌ Failed to open HTML report: ${error}`);
+      vscode.window.showErrorMessage(`Failed to open report: ${error}`);
+    }
+  }
+}
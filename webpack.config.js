@@ -3,15 +3,22 @@
 'use strict';
 
 const path = require('path');
+const webpack = require('webpack');
 
 /**@type {import('webpack').Configuration}*/
 const config = {
   target: 'node',
   mode: 'none',
-  entry: './src/extension.ts',
+  entry: {
+    extension: './src/extension.ts',
+    // The vrt command line tool, which must never load vscode
+    cli: './src/cli.ts',
+    // Lets create-test-file.sh write the spec from the same template
+    specTemplate: './src/specTemplate.ts'
+  },
   output: {
     path: path.resolve(__dirname, 'dist'),
-    filename: 'extension.js',
+    filename: '[name].js',
     libraryTarget: 'commonjs2',
     devtoolModuleFilenameTemplate: '../[resource-path]'
   },
@@ -19,6 +26,9 @@ const config = {
   externals: {
     vscode: 'commonjs vscode'
   },
+  plugins: [
+    new webpack.BannerPlugin({ banner: '#!/usr/bin/env node', raw: true, include: 'cli.js' })
+  ],
   resolve: {
     extensions: ['.ts', '.js']
   },